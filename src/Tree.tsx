@@ -14,7 +14,7 @@ import {
   type Over,
 } from "@dnd-kit/core";
 import { useState } from "react";
-import { findNodeById } from "./tree-utils";
+import { findNode } from "./impl/tree/treeOps";
 import { GhostNode } from "./GhostNode";
 
 type DropLine = { y: number; depth: number };
@@ -110,7 +110,7 @@ export function Tree({ data }: { data: TTree }) {
     setDropLine(null);
   };
 
-  const activeNode = active ? findNodeById(data, active.id as string) : null;
+  const activeNode = active ? findNode(data, active.id as string) : null;
 
   return (
     <DndContext
@@ -1,3 +1,5 @@
+import type { TTreeNode } from "./types";
+
 export const data = {
   name: "payments-api",
   id: "aa08e7a1-2bba-4c30-a969-da0fece2480f",
@@ -39,3 +41,56 @@ export const data = {
     },
   ],
 };
+
+export const teamData = {
+  name: "team-shared",
+  id: "3f0c9b52-6d1e-4a8f-9c27-5b4e1d7a2c90",
+  type: "directory",
+  children: [
+    {
+      name: "onboarding",
+      id: "b7e21d4a-93c5-4f60-8a1b-2d6f0e9c4b13",
+      type: "directory",
+      children: [
+        {
+          name: "create account",
+          id: "e4a9c7f1-5b2d-4e83-b6a0-9f1c3d8e2a57",
+          type: "file",
+        },
+      ],
+    },
+    {
+      name: "health check",
+      id: "1c6d8f2e-7a4b-4d95-8e13-6b0a5c9f3d24",
+      type: "file",
+    },
+  ],
+};
+
+// A collection whose folders are fetched on demand: `lazy` folders come
+// without children, which live in remoteChildren until "loaded".
+export const remoteData = {
+  name: "billing-api",
+  id: "remote-root",
+  type: "directory",
+  children: [
+    { name: "invoices", id: "remote-invoices", type: "directory", lazy: true },
+    { name: "customers", id: "remote-customers", type: "directory", lazy: true },
+    { name: "status", id: "remote-status", type: "file" },
+  ],
+};
+
+export const remoteChildren: Record<string, TTreeNode[]> = {
+  "remote-invoices": [
+    { name: "list invoices", id: "remote-list-invoices", type: "file" },
+    { name: "get invoice", id: "remote-get-invoice", type: "file" },
+    { name: "archive", id: "remote-archive", type: "directory", lazy: true },
+  ],
+  "remote-archive": [
+    { name: "list archived invoices", id: "remote-list-archived", type: "file" },
+  ],
+  "remote-customers": [
+    { name: "list customers", id: "remote-list-customers", type: "file" },
+    { name: "create customer", id: "remote-create-customer", type: "file" },
+  ],
+};
@@ -1,8 +1,33 @@
 import { useState } from "react";
-import { data } from "../data";
+import { data, remoteChildren, remoteData, teamData } from "../data";
 import { Tree } from "./tree/Tree";
+import { TreeDndProvider } from "./tree/TreeDndProvider";
+import { useTreeDropZone } from "./tree/treeDnd";
+import {
+  copyCommand,
+  createCommand,
+  deleteCommand,
+  importFilesCommand,
+  moveCommand,
+  renameCommand,
+  transferInCommand,
+  transferOutCommand,
+} from "./tree/commands";
+import { useTreeHistory } from "./tree/useTreeHistory";
+import { setChildren } from "./tree/treeOps";
 import type { TTree, TTreeNode } from "../types";
-import type { DragEndPayload } from "./tree/types";
+import type {
+  ContextMenuBuilder,
+  CreatePayload,
+  DeletePayload,
+  DragEndPayload,
+  ExternalFilesDropPayload,
+  PastePayload,
+  ProposedDrop,
+  TreeFilter,
+  TreeSortMode,
+  TreeTransferPayload,
+} from "./tree/types";
 
 // =============================================================================
 // IMPL APP
@@ -29,16 +54,30 @@ import type { DragEndPayload } from "./tree/types";
 
 export function ImplApp() {
   // ---------------------------------------------------------------------------
-  // STATE
+  // STATE (WITH HISTORY)
   // ---------------------------------------------------------------------------
   //
-  // We hold the tree data in state so React re-renders when it changes.
-  // The Tree component receives this and renders it.
-  // When the user drags items, we update this state.
+  // We hold the tree data in a history so every change can be undone.
+  // The Tree component receives `tree` and renders it.
+  // When the user changes something, we EXECUTE a command (see
+  // tree/commands.ts) instead of editing the data ourselves.
+  //
+  // The history also owns the tree's selection and collapsed folders
+  // (passed as controlled props), so undo can put those back too.
   //
   // ---------------------------------------------------------------------------
 
-  const [tree, setTree] = useState<TTree>(data as TTree);
+  const history = useTreeHistory(data as TTree);
+  const tree = history.data;
+
+  // A second, smaller tree with its own history (see TRANSFERS)
+  const teamHistory = useTreeHistory(teamData as TTree);
+
+  // The read-only remote collection: no history, but loaded folders are
+  // merged in, so the data always holds every item the tree shows
+  const [remote, setRemote] = useState(remoteData as TTree);
+  const handleRemoteChildrenLoaded = (parentId: string, children: TTreeNode[]) =>
+    setRemote((current) => setChildren(current, parentId, children));
 
   // ---------------------------------------------------------------------------
   // DRAG END HANDLER
@@ -54,77 +93,245 @@ export function ImplApp() {
   //     insertAt: 1                          // Position to insert
   //   }
   //
-  // We then:
-  //   1. Clone the tree (to avoid mutating state directly)
-  //   2. Remove the items from their current locations
-  //   3. Insert them at the new location
+  // moveCommand turns that into "remove the items, insert them at the
+  // new location" - as a NEW tree, so the old one can be restored by undo.
+  //
+  // With Alt/Option held, payload.operation is "copy": copyCommand inserts
+  // deep copies with fresh ids and leaves the originals alone.
   //
   // ---------------------------------------------------------------------------
 
   const handleDragEnd = (payload: DragEndPayload) => {
-    const { items, parent, insertAt } = payload;
-
     console.log("Drag ended:", {
-      moving: items.map((i) => i.name),
-      into: parent.name,
-      atPosition: insertAt,
+      operation: payload.operation,
+      moving: payload.items.map((i) => i.name),
+      into: payload.parent.name,
+      atPosition: payload.insertAt,
     });
 
-    setTree((prevTree) => {
-      // -----------------------------------------------------------------------
-      // STEP 1: Deep clone the tree
-      // -----------------------------------------------------------------------
-      //
-      // React state should be immutable. We can't just modify the existing tree.
-      // structuredClone creates a deep copy that's safe to mutate.
-      //
-      // -----------------------------------------------------------------------
-
-      const newTree = structuredClone(prevTree);
-
-      // -----------------------------------------------------------------------
-      // STEP 2: Remove items from their current locations
-      // -----------------------------------------------------------------------
-      //
-      // Before we can add items to the new location, we need to remove them
-      // from wherever they currently are. This handles:
-      //   - Moving within the same folder (reordering)
-      //   - Moving between folders
-      //
-      // -----------------------------------------------------------------------
-
-      for (const item of items) {
-        removeNodeFromTree(newTree, item.id);
-      }
+    history.execute(
+      payload.operation === "copy" ? copyCommand(payload) : moveCommand(payload)
+    );
+  };
 
-      // -----------------------------------------------------------------------
-      // STEP 3: Find the target parent in the new tree
-      // -----------------------------------------------------------------------
+  // ---------------------------------------------------------------------------
+  // RENAME HANDLER
+  // ---------------------------------------------------------------------------
+  //
+  // The Tree has already validated the name (non-empty, no sibling clash),
+  // so all we do is record the rename.
+  //
+  // ---------------------------------------------------------------------------
 
-      const targetParent = findNodeByIdMutable(newTree, parent.id);
+  const handleRename = (item: TTreeNode, newName: string) => {
+    history.execute(renameCommand(item, newName));
+  };
 
-      if (!targetParent) {
-        console.error("Target parent not found:", parent.id);
-        return prevTree; // Abort - return unchanged tree
-      }
+  // ---------------------------------------------------------------------------
+  // CREATE HANDLER
+  // ---------------------------------------------------------------------------
+  //
+  // The Tree tells us where the new item goes and what it's called;
+  // createCommand gives it an id (a real app would get one from the
+  // backend).
+  //
+  // ---------------------------------------------------------------------------
 
-      // -----------------------------------------------------------------------
-      // STEP 4: Insert items at the new location
-      // -----------------------------------------------------------------------
-      //
-      // Ensure the parent has a children array, then splice in the items.
-      //
-      // -----------------------------------------------------------------------
+  const handleCreate = (payload: CreatePayload) => {
+    history.execute(createCommand(payload));
+  };
 
-      if (!targetParent.children) {
-        targetParent.children = [];
-      }
+  // ---------------------------------------------------------------------------
+  // DELETE HANDLERS
+  // ---------------------------------------------------------------------------
+  //
+  // confirmDelete is only consulted when a non-empty folder is involved.
+  // The payload is already de-duplicated (no children of deleted folders).
+  //
+  // ---------------------------------------------------------------------------
 
-      // Insert at the computed position
-      targetParent.children.splice(insertAt, 0, ...items);
+  const confirmDelete = ({ items }: DeletePayload) => {
+    const names = items.map((i) => `"${i.name}"`).join(", ");
+    return window.confirm(`Delete ${names} and everything inside?`);
+  };
 
-      return newTree;
-    });
+  const handleDelete = (payload: DeletePayload) => {
+    history.execute(deleteCommand(payload));
+  };
+
+  // ---------------------------------------------------------------------------
+  // PASTE HANDLER
+  // ---------------------------------------------------------------------------
+  //
+  // A paste looks just like a drop: a cut comes back as a "move", a copy
+  // as a "copy" (with clashing names already numbered by the tree).
+  //
+  // ---------------------------------------------------------------------------
+
+  const handlePaste = (payload: PastePayload) => {
+    history.execute(
+      payload.operation === "copy" ? copyCommand(payload) : moveCommand(payload)
+    );
+  };
+
+  // ---------------------------------------------------------------------------
+  // FILES FROM THE OS
+  // ---------------------------------------------------------------------------
+  //
+  // Files and folders dragged in from the desktop. We only add nodes named
+  // after them - a real app would upload the File objects as well.
+  //
+  // ---------------------------------------------------------------------------
+
+  const handleExternalFilesDrop = (payload: ExternalFilesDropPayload) => {
+    history.execute(importFilesCommand(payload));
+  };
+
+  // ---------------------------------------------------------------------------
+  // EXTERNAL DROPS
+  // ---------------------------------------------------------------------------
+  //
+  // Items dragged out of the tree onto the "Open tabs" zone (which shares
+  // the tree's TreeDndProvider, see RENDER). The tree data doesn't change;
+  // we just remember which files are open.
+  //
+  // ---------------------------------------------------------------------------
+
+  const [openTabs, setOpenTabs] = useState<TTreeNode[]>([]);
+
+  const handleExternalDrop = (items: TTreeNode[], targetId: string) => {
+    if (targetId !== OPEN_TABS_ZONE) return;
+
+    const files = items.filter((item) => item.type === "file");
+    setOpenTabs((tabs) => [
+      ...tabs,
+      ...files.filter((file) => !tabs.some((tab) => tab.id === file.id)),
+    ]);
+  };
+
+  // ---------------------------------------------------------------------------
+  // TRANSFERS
+  // ---------------------------------------------------------------------------
+  //
+  // Items dragged from one tree into the other. Both trees share the
+  // TreeDndProvider (see RENDER), which reports the drop with the source
+  // and target tree ids. Each tree's history records its own side, so
+  // Cmd+Z in either tree undoes only that tree's half.
+  //
+  // Dragging into the team workspace copies (the personal one keeps its
+  // items); dragging out of it moves - unless Alt/Option is held, which
+  // always copies.
+  //
+  // The remote collection is read-only: items can be copied out of it,
+  // nothing goes in.
+  //
+  // ---------------------------------------------------------------------------
+
+  const histories: Record<string, typeof history> = {
+    [PERSONAL_TREE]: history,
+    [TEAM_TREE]: teamHistory,
+  };
+
+  const handleTransfer = (payload: TreeTransferPayload) => {
+    if (payload.operation === "move") {
+      histories[payload.source.treeId]?.execute(transferOutCommand(payload));
+    }
+    histories[payload.target.treeId]?.execute(transferInCommand(payload));
+  };
+
+  const transferOperation = (sourceTreeId: string, targetTreeId: string) =>
+    targetTreeId === TEAM_TREE || sourceTreeId === REMOTE_TREE ? "copy" : "move";
+
+  const canTransfer = (payload: TreeTransferPayload) =>
+    payload.target.treeId !== REMOTE_TREE;
+
+  // ---------------------------------------------------------------------------
+  // FILTER
+  // ---------------------------------------------------------------------------
+  //
+  // The search box above the tree. The tree takes care of the rest: which
+  // rows show, highlighting, and reopening the user's folders afterwards.
+  //
+  // ---------------------------------------------------------------------------
+
+  const [query, setQuery] = useState("");
+  const [fuzzy, setFuzzy] = useState(false);
+
+  const filter: TreeFilter = { type: fuzzy ? "fuzzy" : "substring", query };
+
+  // ---------------------------------------------------------------------------
+  // SORT
+  // ---------------------------------------------------------------------------
+  //
+  // Only changes how the tree SHOWS the items. Drops while sorted append
+  // (ordering: "sorted"), so the commands above need no changes - and
+  // switching back to "Manual" shows the order the data really has.
+  //
+  // ---------------------------------------------------------------------------
+
+  const [sortMode, setSortMode] = useState<Extract<TreeSortMode, string>>("manual");
+
+  // ---------------------------------------------------------------------------
+  // CONTEXT MENU
+  // ---------------------------------------------------------------------------
+  //
+  // Describes the right-click menu. Tree-level actions (rename, create,
+  // delete, clipboard) go through `actions`; anything else is plain app code.
+  //
+  // ---------------------------------------------------------------------------
+
+  const contextMenu: ContextMenuBuilder = (node, selection, actions) => {
+    const isMulti = selection.length > 1;
+
+    return [
+      { type: "item", label: "New file", onSelect: () => actions.create("file") },
+      {
+        type: "item",
+        label: "New folder",
+        onSelect: () => actions.create("directory"),
+      },
+      { type: "separator" },
+      {
+        type: "item",
+        label: "Rename",
+        shortcut: "F2",
+        disabled: isMulti,
+        onSelect: () => actions.rename(node.item.id),
+      },
+      { type: "separator" },
+      { type: "item", label: "Cut", shortcut: "⌘X", onSelect: actions.cut },
+      { type: "item", label: "Copy", shortcut: "⌘C", onSelect: actions.copy },
+      { type: "item", label: "Paste", shortcut: "⌘V", onSelect: actions.paste },
+      {
+        type: "item",
+        label: "Copy as",
+        submenu: [
+          {
+            type: "item",
+            label: isMulti ? "Names" : "Name",
+            onSelect: () =>
+              navigator.clipboard.writeText(
+                selection.map((i) => i.name).join("\n")
+              ),
+          },
+          {
+            type: "item",
+            label: isMulti ? "IDs" : "ID",
+            onSelect: () =>
+              navigator.clipboard.writeText(
+                selection.map((i) => i.id).join("\n")
+              ),
+          },
+        ],
+      },
+      { type: "separator" },
+      {
+        type: "item",
+        label: isMulti ? `Delete ${selection.length} items` : "Delete",
+        shortcut: "Del",
+        onSelect: actions.deleteSelection,
+      },
+    ];
   };
 
   // ---------------------------------------------------------------------------
@@ -132,90 +339,278 @@ export function ImplApp() {
   // ---------------------------------------------------------------------------
 
   return (
-    <main className="grid grid-cols-6 h-screen">
-      {/* Tree takes 2 columns */}
-      <div className="col-span-2">
-        <Tree data={tree} onDragEnd={handleDragEnd} />
-      </div>
-
-      {/* Placeholder for other content */}
-      <section className="col-span-4 bg-slate-800 p-4">
-        <h1 className="text-slate-200 text-xl mb-4">New Implementation</h1>
-        <p className="text-slate-400 mb-2">
-          This is the new tree implementation with:
-        </p>
-        <ul className="text-slate-400 list-disc list-inside space-y-1">
-          <li>Zustand store for shared state</li>
-          <li>Multi-selection (Cmd/Ctrl+click, Shift+click)</li>
-          <li>Structural drop targets</li>
-          <li>Actual data mutation on drop</li>
-          <li>Auto-expand folders on hover</li>
-        </ul>
-
-        <div className="mt-6">
-          <h2 className="text-slate-300 font-medium mb-2">Current Tree State:</h2>
-          <pre className="text-xs text-slate-500 bg-slate-900 p-3 rounded overflow-auto max-h-96">
-            {JSON.stringify(tree, null, 2)}
-          </pre>
+    <TreeDndProvider
+      onTransfer={handleTransfer}
+      transferOperation={transferOperation}
+      canTransfer={canTransfer}
+    >
+      <main className="grid grid-cols-6 h-screen">
+        {/* Trees take 2 columns */}
+        <div className="col-span-2 flex flex-col min-h-0">
+          <div className="flex items-center gap-2 p-2 bg-slate-900 border-b border-slate-700">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setQuery("");
+              }}
+              placeholder="Filter…"
+              aria-label="Filter items"
+              className="flex-1 min-w-0 px-2 py-1 rounded bg-slate-800 text-slate-200 text-sm outline-none focus:ring-1 focus:ring-slate-500"
+            />
+            <label className="flex items-center gap-1 text-xs text-slate-400">
+              <input
+                type="checkbox"
+                checked={fuzzy}
+                onChange={(e) => setFuzzy(e.target.checked)}
+              />
+              Fuzzy
+            </label>
+            <select
+              value={sortMode}
+              onChange={(e) =>
+                setSortMode(e.target.value as Extract<TreeSortMode, string>)
+              }
+              aria-label="Sort items"
+              className="px-1 py-1 rounded bg-slate-800 text-slate-300 text-xs outline-none focus:ring-1 focus:ring-slate-500"
+            >
+              <option value="manual">Manual</option>
+              <option value="name-asc">Name A→Z</option>
+              <option value="name-desc">Name Z→A</option>
+              <option value="folders-first">Folders first</option>
+            </select>
+          </div>
+
+          <div className="flex-1 min-h-0">
+            <Tree
+              id={PERSONAL_TREE}
+              data={tree}
+              selectedIds={history.selectedIds}
+              onSelectionChange={history.onSelectionChange}
+              collapsed={history.collapsed}
+              onCollapsedChange={history.onCollapsedChange}
+              onDragEnd={handleDragEnd}
+              onRename={handleRename}
+              onCreate={handleCreate}
+              onDelete={handleDelete}
+              onPaste={handlePaste}
+              confirmDelete={confirmDelete}
+              contextMenu={contextMenu}
+              onUndo={history.undo}
+              onRedo={history.redo}
+              persist={{ id: "impl-demo" }}
+              onExternalDrop={handleExternalDrop}
+              onExternalFilesDrop={handleExternalFilesDrop}
+              filter={filter}
+              sortMode={sortMode}
+              springLoaded
+            />
+          </div>
+
+          <div className="h-1/4 min-h-0 border-t border-slate-700">
+            <Tree
+              id={TEAM_TREE}
+              label="Team workspace"
+              data={teamHistory.data}
+              selectedIds={teamHistory.selectedIds}
+              onSelectionChange={teamHistory.onSelectionChange}
+              collapsed={teamHistory.collapsed}
+              onCollapsedChange={teamHistory.onCollapsedChange}
+              onDragEnd={(payload) =>
+                teamHistory.execute(
+                  payload.operation === "copy"
+                    ? copyCommand(payload)
+                    : moveCommand(payload)
+                )
+              }
+              onRename={(item, name) => teamHistory.execute(renameCommand(item, name))}
+              onDelete={(payload) => teamHistory.execute(deleteCommand(payload))}
+              onPaste={(payload) =>
+                teamHistory.execute(
+                  payload.operation === "copy"
+                    ? copyCommand(payload)
+                    : moveCommand(payload)
+                )
+              }
+              canDrag={canDragTeamItem}
+              canDrop={canDropInTeam}
+              onUndo={teamHistory.undo}
+              onRedo={teamHistory.redo}
+            />
+          </div>
+
+          {/* Folders load on first expand (see loadRemoteChildren) */}
+          <div className="h-1/4 min-h-0 border-t border-slate-700">
+            <Tree
+              id={REMOTE_TREE}
+              label="Remote collection"
+              data={remote}
+              loadChildren={loadRemoteChildren}
+              onChildrenLoaded={handleRemoteChildrenLoaded}
+            />
+          </div>
         </div>
-      </section>
-    </main>
+
+        {/* Placeholder for other content */}
+        <section className="col-span-4 bg-slate-800 p-4">
+          <h1 className="text-slate-200 text-xl mb-4">New Implementation</h1>
+          <p className="text-slate-400 mb-2">
+            This is the new tree implementation with:
+          </p>
+          <ul className="text-slate-400 list-disc list-inside space-y-1">
+            <li>Zustand store per tree instance</li>
+            <li>Controlled selection and collapse state (owned by the undo history here)</li>
+            <li>Multi-selection (Cmd/Ctrl+click, Shift+click)</li>
+            <li>Structural drop targets</li>
+            <li>Actual data mutation on drop</li>
+            <li>Hold Alt/Option while dragging to copy instead of move</li>
+            <li>Auto-expand folders on hover - in payments-api they close again unless you drop into them</li>
+            <li>Keyboard navigation (arrows, Home/End, Shift+arrow, type-ahead)</li>
+            <li>Keyboard moves (Space to pick up, arrows, Enter to drop)</li>
+            <li>Inline rename (F2, Enter or double-click)</li>
+            <li>New file / folder from the tree toolbar</li>
+            <li>Delete / Backspace to delete the selection</li>
+            <li>Cut / copy / paste (Cmd/Ctrl+X, C, V) - also between tabs</li>
+            <li>Right-click context menu (or Shift+F10)</li>
+            <li>Filter box (substring or fuzzy) with highlighted matches</li>
+            <li>Sort by name or folders first - drops then go into folders</li>
+            <li>Undo / redo (Cmd/Ctrl+Z, Cmd/Ctrl+Shift+Z)</li>
+            <li>Virtualized rendering (only rows near the viewport are mounted)</li>
+            <li>Auto-scroll while dragging near the top/bottom edge</li>
+            <li>Collapsed folders, selection and scroll position survive a reload</li>
+            <li>Drag files out of the tree onto "Open tabs" below</li>
+            <li>Drop files and folders from the desktop into the tree</li>
+            <li>Drop rules: onboarding is pinned, and the team workspace only takes folders at the top</li>
+            <li>Drag between the two trees (copied into the team workspace, moved out of it)</li>
+            <li>Remote collection: folders load on first expand (customers fails once - retry it)</li>
+          </ul>
+
+          <OpenTabsZone tabs={openTabs} />
+
+          <div className="mt-6 flex gap-2">
+            <button
+              type="button"
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              className="px-3 py-1 rounded bg-slate-700 text-slate-200 text-sm disabled:opacity-40"
+            >
+              {history.undoLabel ? `Undo ${history.undoLabel}` : "Undo"}
+            </button>
+            <button
+              type="button"
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              className="px-3 py-1 rounded bg-slate-700 text-slate-200 text-sm disabled:opacity-40"
+            >
+              {history.redoLabel ? `Redo ${history.redoLabel}` : "Redo"}
+            </button>
+          </div>
+
+          <div className="mt-6">
+            <h2 className="text-slate-300 font-medium mb-2">Current Tree State:</h2>
+            <pre className="text-xs text-slate-500 bg-slate-900 p-3 rounded overflow-auto max-h-96">
+              {JSON.stringify(tree, null, 2)}
+            </pre>
+          </div>
+        </section>
+      </main>
+    </TreeDndProvider>
   );
 }
 
+/** Tree ids, named in the transfer payloads */
+const PERSONAL_TREE = "personal";
+const TEAM_TREE = "team";
+const REMOTE_TREE = "remote";
+
 // =============================================================================
-// HELPER FUNCTIONS
+// TEAM WORKSPACE RULES
 // =============================================================================
 //
-// These functions help us manipulate the tree data.
-// They MUTATE the tree, so only use them on cloned data!
+// Drag and drop rules for the team tree: "onboarding" is pinned, and only
+// folders go at the top level (files belong in one). Try dropping a file
+// between the top-level folders - the marker turns red.
 //
 // =============================================================================
 
-/**
- * Recursively remove a node with the given ID from the tree.
- * MUTATES the tree structure.
- */
-function removeNodeFromTree(root: TTree | TTreeNode, id: string): boolean {
-  if (!root.children) return false;
-
-  // Check direct children
-  const index = root.children.findIndex((child) => child.id === id);
-  if (index !== -1) {
-    root.children.splice(index, 1);
-    return true;
-  }
-
-  // Recursively check grandchildren
-  for (const child of root.children) {
-    if (removeNodeFromTree(child, id)) {
-      return true;
-    }
-  }
+const PINNED_TEAM_ITEM = "b7e21d4a-93c5-4f60-8a1b-2d6f0e9c4b13"; // onboarding
+
+const canDragTeamItem = (node: TTreeNode) => node.id !== PINNED_TEAM_ITEM;
+
+const canDropInTeam = ({ items, parent }: ProposedDrop) =>
+  parent.id !== teamData.id || items.every((item) => item.type === "directory");
+
+// =============================================================================
+// FAKE REMOTE LOADER
+// =============================================================================
+//
+// Stands in for a backend that pages folder contents: answers from
+// remoteChildren after a delay. The customers folder fails on its first
+// request, to show the retry row.
+//
+// =============================================================================
 
-  return false;
+const REMOTE_LATENCY = 800; // ms
+
+const failedOnce = new Set<string>();
+
+function loadRemoteChildren(node: TTreeNode): Promise<TTreeNode[]> {
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      if (node.id === "remote-customers" && !failedOnce.has(node.id)) {
+        failedOnce.add(node.id);
+        reject(new Error("Request timed out"));
+        return;
+      }
+      resolve(remoteChildren[node.id] ?? []);
+    }, REMOTE_LATENCY);
+  });
 }
 
-/**
- * Find a node by ID in the tree.
- * Returns a reference that can be mutated.
- */
-function findNodeByIdMutable(
-  root: TTree | TTreeNode,
-  id: string
-): TTreeNode | null {
-  if (root.id === id) {
-    return root as TTreeNode;
-  }
-
-  if (root.children) {
-    for (const child of root.children) {
-      const found = findNodeByIdMutable(child, id);
-      if (found) return found;
-    }
-  }
+// =============================================================================
+// OPEN TABS ZONE
+// =============================================================================
+//
+// An external drop zone: not part of the tree, but in the same
+// TreeDndProvider, so tree rows can be dropped on it.
+//
+// =============================================================================
+
+const OPEN_TABS_ZONE = "open-tabs";
 
-  return null;
+function OpenTabsZone({ tabs }: { tabs: TTreeNode[] }) {
+  const { setNodeRef, isOver, items } = useTreeDropZone(OPEN_TABS_ZONE, {
+    label: "Open tabs",
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`
+        mt-6 p-3 rounded border border-dashed min-h-14
+        ${isOver ? "border-blue-400 bg-blue-500/10" : "border-slate-600"}
+      `}
+    >
+      <h2 className="text-slate-300 font-medium mb-2">Open tabs</h2>
+      {tabs.length === 0 ? (
+        <p className="text-slate-500 text-sm">
+          {items.length > 0 ? "Drop here to open" : "Drag files here"}
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {tabs.map((tab) => (
+            <span
+              key={tab.id}
+              className="px-2 py-0.5 rounded bg-slate-700 text-slate-200 text-xs"
+            >
+              {tab.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default ImplApp;
@@ -1,4 +1,6 @@
 import { useDroppable } from "@dnd-kit/core";
+import { useTreeStore } from "./store";
+import { getDndId } from "./treeDnd";
 
 // =============================================================================
 // CATCH ZONE
@@ -15,17 +17,23 @@ import { useDroppable } from "@dnd-kit/core";
 // =============================================================================
 
 interface CatchZoneProps {
-  /** Unique ID for this catch zone */
+  /** ID for this catch zone, unique within the tree */
   id: string;
 
   /** Position: "start" or "end" of the list */
   position: "start" | "end";
+
+  /** Native dragover of files from the OS (see useExternalFileDrop.ts) */
+  onFileDragOver?: (position: "start" | "end", e: React.DragEvent) => void;
 }
 
-export function CatchZone({ id, position }: CatchZoneProps) {
+export function CatchZone({ id, position, onFileDragOver }: CatchZoneProps) {
+  const treeId = useTreeStore((state) => state.treeId);
+
   const { setNodeRef, isOver } = useDroppable({
-    id,
+    id: getDndId(treeId, id),
     data: {
+      treeId,
       type: "catch-zone",
       position,
     },
@@ -34,6 +42,9 @@ export function CatchZone({ id, position }: CatchZoneProps) {
   return (
     <div
       ref={setNodeRef}
+      // Purely a drop affordance - screen readers get the live region instead
+      aria-hidden="true"
+      onDragOver={onFileDragOver && ((e) => onFileDragOver(position, e))}
       className={`
         h-5 w-full
         ${isOver ? "bg-blue-500/20" : ""}
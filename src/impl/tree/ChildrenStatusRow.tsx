@@ -0,0 +1,68 @@
+import { LoaderCircle, RotateCw } from "lucide-react";
+import type { ChildrenLoad } from "./types";
+
+// =============================================================================
+// CHILDREN STATUS ROW
+// =============================================================================
+//
+// Stands in for the children of an expanded lazy folder until they arrive
+// (see useLazyChildren.ts):
+//
+//   ▾ orders
+//       ◌ Loading…                     ← while loadChildren runs
+//       Couldn't load: timeout  Retry  ← after it failed
+//
+// It isn't an item: it can't be selected, focused with the arrow keys or
+// dropped on. Tree renders it inside the folder's row slot, right below
+// the folder, so it scrolls and virtualizes with it.
+//
+// =============================================================================
+
+/** Pixels per depth level for indentation */
+const DEPTH_PADDING = 20;
+
+/** Lines the spinner up with the icons of the folder's children */
+const ICON_OFFSET = 24;
+
+interface ChildrenStatusRowProps {
+  /** The depth of the children it stands in for */
+  depth: number;
+
+  load: Exclude<ChildrenLoad, { status: "loaded" }>;
+
+  onRetry: () => void;
+}
+
+export function ChildrenStatusRow({ depth, load, onRetry }: ChildrenStatusRowProps) {
+  return (
+    <div
+      className="flex items-center gap-2 py-1 px-2 text-sm text-slate-500"
+      style={{ paddingLeft: depth * DEPTH_PADDING + ICON_OFFSET }}
+    >
+      {load.status === "loading" ? (
+        <>
+          <LoaderCircle size={14} className="animate-spin" aria-hidden />
+          <span role="status">Loading…</span>
+        </>
+      ) : (
+        <>
+          <span role="alert" className="text-red-400 truncate">
+            Couldn't load: {describeError(load.error)}
+          </span>
+          <button
+            type="button"
+            onClick={onRetry}
+            className="flex items-center gap-1 px-1.5 rounded text-slate-300 hover:bg-slate-700"
+          >
+            <RotateCw size={12} aria-hidden />
+            Retry
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,330 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { ChevronRight } from "lucide-react";
+import type { ContextMenuEntry, ContextMenuItem } from "./types";
+
+// =============================================================================
+// CONTEXT MENU
+// =============================================================================
+//
+// Renders the menu model returned by Tree's `contextMenu` prop.
+//
+// Features:
+//   - Positioned at the pointer (or the focused row for keyboard opens)
+//     and nudged back inside the viewport if it would overflow
+//   - Keyboard navigable:
+//       ArrowUp/Down  move between enabled items (wrapping)
+//       Home/End      first/last enabled item
+//       Enter/Space   activate (or open a submenu)
+//       ArrowRight    open a submenu
+//       ArrowLeft     close the current submenu
+//       Escape        close the current submenu, or the whole menu
+//   - Closes on outside pointerdown, window blur and resize
+//
+// Rendered in a portal so it isn't clipped by the tree's scroll container.
+// Submenus render INSIDE the same portal root, so "outside click" is a
+// single contains() check.
+//
+// =============================================================================
+
+interface ContextMenuProps {
+  /** Entries to show */
+  entries: ContextMenuEntry[];
+
+  /** Viewport coordinates of the menu's top-left corner */
+  x: number;
+  y: number;
+
+  /** Close the whole menu (Escape, outside click, or an item was chosen) */
+  onClose: () => void;
+}
+
+export function ContextMenu({ entries, x, y, onClose }: ContextMenuProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // ---------------------------------------------------------------------------
+  // CLOSE ON OUTSIDE INTERACTION
+  // ---------------------------------------------------------------------------
+  //
+  // Capture phase, so we see the pointerdown even if something stops it.
+  //
+  // ---------------------------------------------------------------------------
+
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    document.addEventListener("pointerdown", handlePointerDown, true);
+    window.addEventListener("blur", onClose);
+    window.addEventListener("resize", onClose);
+
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown, true);
+      window.removeEventListener("blur", onClose);
+      window.removeEventListener("resize", onClose);
+    };
+  }, [onClose]);
+
+  return createPortal(
+    <div ref={rootRef}>
+      <MenuList entries={entries} x={x} y={y} onClose={onClose} onBack={onClose} />
+    </div>,
+    document.body
+  );
+}
+
+// =============================================================================
+// MENU LIST (ONE LEVEL)
+// =============================================================================
+//
+// Used for both the top level and every submenu. Each level tracks its own
+// active item and which (if any) of its submenus is open.
+//
+// =============================================================================
+
+interface MenuListProps {
+  entries: ContextMenuEntry[];
+  x: number;
+  y: number;
+
+  /** Close the WHOLE menu */
+  onClose: () => void;
+
+  /** Close just this level (top level: same as onClose) */
+  onBack: () => void;
+
+  /** Nested levels close on ArrowLeft; the top level ignores it */
+  isSubmenu?: boolean;
+}
+
+function isEnabledItem(entry: ContextMenuEntry): entry is ContextMenuItem {
+  return entry.type === "item" && !entry.disabled;
+}
+
+function MenuList({
+  entries,
+  x,
+  y,
+  onClose,
+  onBack,
+  isSubmenu = false,
+}: MenuListProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const [activeIndex, setActiveIndex] = useState(() =>
+    entries.findIndex(isEnabledItem)
+  );
+  const [openSubmenu, setOpenSubmenu] = useState<{
+    index: number;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  // ---------------------------------------------------------------------------
+  // KEEP INSIDE THE VIEWPORT
+  // ---------------------------------------------------------------------------
+  //
+  // Measure after layout and shift left/up if we'd overflow. Done directly
+  // on the element so there's no visible "jump" render.
+  //
+  // ---------------------------------------------------------------------------
+
+  useLayoutEffect(() => {
+    const el = listRef.current;
+    if (!el) return;
+
+    const rect = el.getBoundingClientRect();
+    const left = Math.max(0, Math.min(x, window.innerWidth - rect.width));
+    const top = Math.max(0, Math.min(y, window.innerHeight - rect.height));
+
+    el.style.left = `${left}px`;
+    el.style.top = `${top}px`;
+  }, [x, y]);
+
+  // Move DOM focus with the active item (unless a submenu has it)
+  useEffect(() => {
+    if (openSubmenu === null && activeIndex !== -1) {
+      itemRefs.current[activeIndex]?.focus();
+    }
+  }, [activeIndex, openSubmenu]);
+
+  // ---------------------------------------------------------------------------
+  // NAVIGATION HELPERS
+  // ---------------------------------------------------------------------------
+
+  const step = (from: number, direction: 1 | -1) => {
+    for (let i = 1; i <= entries.length; i++) {
+      const index = (from + direction * i + entries.length) % entries.length;
+      if (isEnabledItem(entries[index])) return index;
+    }
+    return from;
+  };
+
+  const openSubmenuAt = (index: number) => {
+    const rect = itemRefs.current[index]?.getBoundingClientRect();
+    if (!rect) return;
+    setActiveIndex(index);
+    setOpenSubmenu({ index, x: rect.right, y: rect.top });
+  };
+
+  const activate = (index: number) => {
+    const entry = entries[index];
+    if (!entry || !isEnabledItem(entry)) return;
+
+    if (entry.submenu) {
+      openSubmenuAt(index);
+      return;
+    }
+
+    // Close first so focus is back on the tree before the action runs
+    // (e.g. "Rename" then focuses its input)
+    onClose();
+    entry.onSelect?.();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The menu is rendered inside Tree's React tree; keep its keys away
+    // from the tree's own keyboard navigation.
+    e.stopPropagation();
+
+    // A submenu is open and handling its own keys
+    if (openSubmenu !== null) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setActiveIndex((i) => step(i, 1));
+        return;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((i) => step(i, -1));
+        return;
+      case "Home":
+        e.preventDefault();
+        setActiveIndex(step(-1, 1));
+        return;
+      case "End":
+        e.preventDefault();
+        setActiveIndex(step(entries.length, -1));
+        return;
+      case "Enter":
+      case " ":
+        e.preventDefault();
+        activate(activeIndex);
+        return;
+      case "ArrowRight": {
+        const entry = entries[activeIndex];
+        if (entry && isEnabledItem(entry) && entry.submenu) {
+          e.preventDefault();
+          openSubmenuAt(activeIndex);
+        }
+        return;
+      }
+      case "ArrowLeft":
+        if (isSubmenu) {
+          e.preventDefault();
+          onBack();
+        }
+        return;
+      case "Escape":
+        e.preventDefault();
+        onBack();
+        return;
+      case "Tab":
+        // Menus aren't part of the tab order - Tab just closes
+        e.preventDefault();
+        onClose();
+        return;
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // RENDER
+  // ---------------------------------------------------------------------------
+
+  return (
+    <div
+      ref={listRef}
+      role="menu"
+      onKeyDown={handleKeyDown}
+      onContextMenu={(e) => e.preventDefault()}
+      className={`
+        fixed z-50 min-w-[180px] py-1
+        bg-slate-800 border border-slate-600 rounded-md shadow-lg
+        text-sm text-slate-200
+      `}
+      style={{ left: x, top: y }}
+    >
+      {entries.map((entry, index) => {
+        if (entry.type === "separator") {
+          return (
+            <div
+              key={`separator-${index}`}
+              role="separator"
+              className="my-1 h-px bg-slate-600"
+            />
+          );
+        }
+
+        const isActive = index === activeIndex;
+        const isOpen = openSubmenu?.index === index;
+
+        return (
+          <div
+            key={`${entry.label}-${index}`}
+            ref={(el) => {
+              itemRefs.current[index] = el;
+            }}
+            role="menuitem"
+            tabIndex={isActive ? 0 : -1}
+            aria-disabled={entry.disabled || undefined}
+            aria-haspopup={entry.submenu ? "menu" : undefined}
+            aria-expanded={entry.submenu ? isOpen : undefined}
+            onClick={(e) => {
+              // Submenu items are nested inside us - don't re-handle theirs
+              e.stopPropagation();
+              activate(index);
+            }}
+            onPointerEnter={() => {
+              if (entry.disabled) return;
+              setActiveIndex(index);
+              if (entry.submenu) {
+                openSubmenuAt(index);
+              } else {
+                setOpenSubmenu(null);
+              }
+            }}
+            className={`
+              flex items-center gap-4 px-3 py-1 outline-none select-none
+              ${entry.disabled ? "text-slate-500 cursor-default" : "cursor-pointer"}
+              ${isActive && !entry.disabled ? "bg-blue-500/30" : ""}
+            `}
+          >
+            <span className="flex-1">{entry.label}</span>
+
+            {entry.shortcut && (
+              <span className="text-xs text-slate-400">{entry.shortcut}</span>
+            )}
+
+            {entry.submenu && <ChevronRight size={14} className="text-slate-400" />}
+
+            {isOpen && entry.submenu && (
+              <MenuList
+                entries={entry.submenu}
+                x={openSubmenu.x}
+                y={openSubmenu.y}
+                onClose={onClose}
+                onBack={() => setOpenSubmenu(null)}
+                isSubmenu
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { File, Folder } from "lucide-react";
+import { Ban, File, Folder } from "lucide-react";
 import type { TTreeNode } from "../../types";
 
 // =============================================================================
@@ -11,6 +11,9 @@ import type { TTreeNode } from "../../types";
 // Features:
 //   - Shows item icon and name
 //   - Optionally shows count badge when dragging multiple items
+//   - Shows a "+" badge when the drop will COPY (Alt/Option held)
+//   - Turns red with a "not allowed" badge over a target the drop rules
+//     refuse (see DRAG AND DROP RULES in types.ts)
 //   - Semi-transparent to indicate it's a "ghost"
 //
 // The DragOverlay is rendered in a portal, so it's not affected by
@@ -27,19 +30,31 @@ interface GhostNodeProps {
    * If > 1, shows a count badge.
    */
   count?: number;
+
+  /** The drop will copy the items instead of moving them */
+  copy?: boolean;
+
+  /** The current drop target refuses the items */
+  rejected?: boolean;
 }
 
-export function GhostNode({ node, count = 1 }: GhostNodeProps) {
+export function GhostNode({
+  node,
+  count = 1,
+  copy = false,
+  rejected = false,
+}: GhostNodeProps) {
   const isDirectory = node.type === "directory";
   const Icon = isDirectory ? Folder : File;
 
   return (
-    <div className="relative">
+    <div className={`relative ${rejected ? "cursor-not-allowed" : ""}`}>
       {/* Main ghost item - highly transparent so drop lines remain visible */}
       <div
         className={`
           flex items-center gap-2 py-1 px-3
-          bg-slate-800/30 border border-slate-500 rounded-md
+          bg-slate-800/30 border rounded-md
+          ${rejected ? "border-red-500" : "border-slate-500"}
           shadow-lg
         `}
       >
@@ -64,6 +79,36 @@ export function GhostNode({ node, count = 1 }: GhostNodeProps) {
           {count}
         </span>
       )}
+
+      {/* "Not allowed" badge - in the copy badge's place: nothing will be copied */}
+      {rejected && (
+        <span
+          className={`
+            absolute -bottom-2 -right-2
+            w-5 h-5
+            flex items-center justify-center
+            bg-red-500 text-white
+            rounded-full
+          `}
+        >
+          <Ban size={14} />
+        </span>
+      )}
+
+      {/* Copy badge - bottom right, so it never covers the count */}
+      {copy && !rejected && (
+        <span
+          className={`
+            absolute -bottom-2 -right-2
+            w-5 h-5
+            flex items-center justify-center
+            bg-emerald-500 text-white text-sm font-bold leading-none
+            rounded-full
+          `}
+        >
+          +
+        </span>
+      )}
     </div>
   );
 }
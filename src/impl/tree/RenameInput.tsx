@@ -0,0 +1,138 @@
+import { useEffect, useId, useRef, useState } from "react";
+
+// =============================================================================
+// RENAME INPUT
+// =============================================================================
+//
+// The text field TreeNode swaps in for the item name while renaming.
+//
+// Behaviour:
+//   - Mounts focused with the whole name selected
+//   - Validates on every keystroke and shows the error inline
+//   - Enter  → commit (only if valid)
+//   - Escape → cancel
+//   - Blur   → commit if valid, otherwise cancel
+//              (clicking away shouldn't leave the tree stuck in edit mode)
+//
+// It knows nothing about the tree - TreeNode hands it a `validate` function
+// and decides what committing means.
+//
+// =============================================================================
+
+interface RenameInputProps {
+  /** The current name (pre-filled and selected) */
+  initialName: string;
+
+  /** Returns an error message for an invalid (trimmed) name, or null */
+  validate: (name: string) => string | null;
+
+  /** Called once with the trimmed, validated name */
+  onCommit: (name: string) => void;
+
+  /** Called once when editing is abandoned */
+  onCancel: () => void;
+}
+
+export function RenameInput({
+  initialName,
+  validate,
+  onCommit,
+  onCancel,
+}: RenameInputProps) {
+  const [value, setValue] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const errorId = useId();
+
+  // Enter commits and then unmounts us, which can ALSO fire blur.
+  // This guard makes sure only the first of the two gets through.
+  const doneRef = useRef(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const finish = (commit: boolean) => {
+    if (doneRef.current) return;
+
+    const name = value.trim();
+    if (commit && validate(name) === null) {
+      doneRef.current = true;
+      onCommit(name);
+      return;
+    }
+
+    if (commit) {
+      // Invalid - surface the error and stay in edit mode
+      setError(validate(name));
+      return;
+    }
+
+    doneRef.current = true;
+    onCancel();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep keys away from the row (dnd-kit pick-up) and the tree (navigation)
+    e.stopPropagation();
+
+    if (e.key === "Enter") {
+      e.preventDefault();
+      finish(true);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      finish(false);
+    }
+  };
+
+  const handleBlur = () => {
+    if (validate(value.trim()) === null) {
+      finish(true);
+    } else {
+      finish(false);
+    }
+  };
+
+  return (
+    <span className="relative flex-1 min-w-0">
+      <input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setError(validate(e.target.value.trim()));
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        // Don't let the row start a drag or change selection while editing
+        onPointerDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+        aria-label="Name"
+        aria-invalid={error !== null}
+        aria-describedby={error ? errorId : undefined}
+        className={`
+          w-full bg-slate-800 text-slate-200 px-1 rounded-sm outline-none
+          border ${error ? "border-red-500" : "border-blue-500"}
+        `}
+      />
+
+      {/* Inline error, floating under the input */}
+      {error && (
+        <span
+          id={errorId}
+          role="alert"
+          className={`
+            absolute left-0 top-full mt-1 z-10
+            bg-red-900 text-red-100 text-xs
+            border border-red-500 rounded-sm px-2 py-1
+            whitespace-nowrap
+          `}
+        >
+          {error}
+        </span>
+      )}
+    </span>
+  );
+}
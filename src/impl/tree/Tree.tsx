@@ -1,23 +1,96 @@
-import { Fragment, useEffect, useMemo } from "react";
 import {
-  DndContext,
-  DragOverlay,
-  PointerSensor,
-  useSensor,
-  useSensors,
+  useCallback,
+  useContext,
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  type Announcements,
   type DragEndEvent,
   type DragMoveEvent,
   type DragStartEvent,
+  type KeyboardCoordinateGetter,
 } from "@dnd-kit/core";
-import type { TTree } from "../../types";
-import type { DragEndPayload, InternalTreeNode } from "./types";
-import { useTreeStore } from "./store";
-import { buildInternalTree, getChildIndex, hasAncestor, findNodeById } from "./utils";
-import { useSelectableItems } from "./useSelectableItems";
+import type { TreeNodeType, TTree, TTreeNode } from "../../types";
+import type {
+  ChildrenLoader,
+  ContextMenuBuilder,
+  ContextMenuEntry,
+  CreatePayload,
+  DeletePayload,
+  DragEndPayload,
+  ExternalFilesDropPayload,
+  InternalTreeNode,
+  NameValidator,
+  PastePayload,
+  ProposedDrop,
+  TreeActions,
+  TreeFilter,
+  TreeSortMode,
+  TreeTransferPayload,
+} from "./types";
+import {
+  selectCollapsed,
+  TreeStoreContext,
+  useTreeStore,
+  useTreeStoreApi,
+} from "./store";
+import {
+  type TreeStateOptions,
+  useControlledTreeStore,
+} from "./useControlledTreeStore";
+import {
+  buildInternalTree,
+  canDropInto,
+  hasAncestor,
+  findNextSurvivor,
+  getCreateTarget,
+  getDropPath,
+  getRowDropTarget,
+  getSelectedItems,
+  getTopmostNodes,
+  insertPlaceholder,
+  isUnloaded,
+  validateName as defaultValidateName,
+  validateTransfer,
+} from "./utils";
+import { indexSelectableItems, useSelectableItems } from "./useSelectableItems";
+import { useTreeKeyboard } from "./useTreeKeyboard";
+import { useTreeClipboard } from "./useTreeClipboard";
+import { useTreeFilter } from "./useTreeFilter";
+import { useLazyChildren } from "./useLazyChildren";
+import { useExternalFileDrop } from "./useExternalFileDrop";
+import { useVirtualRows } from "./useVirtualRows";
+import { useTreePersistence } from "./useTreePersistence";
+import { loadTreeState, type PersistOptions } from "./persistence";
+import { AUTO_SCROLL_EDGE, useEdgeAutoScroll } from "./useEdgeAutoScroll";
 import { TreeNode } from "./TreeNode";
 import { TreeDropMarker } from "./TreeDropMarker";
-import { GhostNode } from "./GhostNode";
 import { CatchZone } from "./CatchZone";
+import { ChildrenStatusRow } from "./ChildrenStatusRow";
+import { TreeToolbar } from "./TreeToolbar";
+import { ContextMenu } from "./ContextMenu";
+import {
+  getKeyboardDropPositions,
+  type KeyboardDragTree,
+  type KeyboardDropRules,
+  stepKeyboardDrop,
+  toHoveredParent,
+} from "./keyboardDrag";
+import { describeDropTarget, describeItems } from "./announcements";
+import {
+  getItemId,
+  isOwnDroppable,
+  isTreeDroppable,
+  TreeDndContext,
+  useTreeDnd,
+  type TreeDndParticipant,
+} from "./treeDnd";
+import { TreeDndProvider } from "./TreeDndProvider";
 
 // =============================================================================
 // TREE COMPONENT
@@ -27,7 +100,8 @@ import { CatchZone } from "./CatchZone";
 //   - Converts external data to internal structure
 //   - Flattens tree for selection/navigation
 //   - Handles all drag-and-drop logic
-//   - Renders items with drop markers
+//   - Renders items with drop markers (only the rows near the viewport -
+//     see VIRTUALIZATION below)
 //
 // KEY DIFFERENCES FROM YOUR CURRENT IMPLEMENTATION:
 //
@@ -43,10 +117,31 @@ import { CatchZone } from "./CatchZone";
 //
 // =============================================================================
 
-interface TreeProps {
+/** Assumed height of a row (py-1 + one line of text) until it's measured */
+const ESTIMATED_ROW_HEIGHT = 32;
+
+/**
+ * Besides the props below, selection and collapse state can be controlled
+ * (selectedIds / onSelectionChange, collapsed / onCollapsedChange) or just
+ * seeded (defaultSelectedIds, defaultCollapsed) - see useControlledTreeStore.
+ */
+interface TreeProps extends TreeStateOptions {
   /** The tree data to render */
   data: TTree;
 
+  /**
+   * Accessible name for the tree (read by screen readers).
+   * Defaults to the root item's name.
+   */
+  label?: string;
+
+  /**
+   * Identifies this tree within its TreeDndProvider - transfers between
+   * trees name their source and target by it (see TreeTransferPayload).
+   * Read once, on mount. Defaults to a generated id.
+   */
+  id?: string;
+
   /**
    * Callback when a drag operation completes.
    * Receives structured payload with:
@@ -54,11 +149,257 @@ interface TreeProps {
    *   - parent: target folder
    *   - children: target's current children
    *   - insertAt: index to insert at
+   *   - ordering: "sorted" when sortMode picks the order (insertAt = end)
    */
   onDragEnd?: (payload: DragEndPayload) => void;
+
+  /**
+   * Callback when an item is renamed inline (F2, Enter or double-click).
+   * Only fires when the name actually changed and passed validation.
+   * If omitted, inline renaming is disabled.
+   */
+  onRename?: (item: TTreeNode, newName: string) => void;
+
+  /**
+   * Callback when a new file/folder is named and committed.
+   * Receives the target parent, insert position, type and name - the
+   * consumer creates the actual node (and picks its id).
+   * If omitted, the "New file" / "New folder" actions are hidden.
+   */
+  onCreate?: (payload: CreatePayload) => void;
+
+  /**
+   * Callback when the user deletes the selection (Delete/Backspace).
+   * Receives the items (a folder's selected descendants are left out)
+   * and the folder each one lives in.
+   * If omitted, deleting is disabled.
+   */
+  onDelete?: (payload: DeletePayload) => void;
+
+  /**
+   * Callback when cut or copied items are pasted (Cmd/Ctrl+V).
+   * Receives the same payload as onDragEnd - operation "move" for a cut,
+   * "copy" for a copy - so moveCommand / copyCommand apply it as is.
+   * If omitted, cut and paste are disabled (copy still fills the system
+   * clipboard).
+   */
+  onPaste?: (payload: PastePayload) => void;
+
+  /**
+   * Asked before deleting when the selection includes a folder that still
+   * has contents, or an unloaded lazy one. Return (or resolve) false - or
+   * throw - to abort.
+   * If omitted, such deletes go ahead without asking.
+   */
+  confirmDelete?: (payload: DeletePayload) => boolean | Promise<boolean>;
+
+  /**
+   * Builds the right-click menu for a row.
+   * Receives the clicked node, the selection (after the right-click has
+   * updated it) and tree actions the menu items can call.
+   * Return an empty array to fall back to the browser's menu.
+   */
+  contextMenu?: ContextMenuBuilder;
+
+  /**
+   * Whether a row can be picked up (pointer or Space). Items it refuses
+   * stay behind when dragged along with a selection, and can't be cut.
+   * Defaults to every item.
+   */
+  canDrag?: (node: TTreeNode) => boolean;
+
+  /**
+   * Asked for every drop target while dragging (and before a paste).
+   * A rejected target shows as "not allowed" and the drop does nothing.
+   * Not asked for files dropped from the OS - there are no items yet.
+   * Defaults to allowing everything but moving a folder into itself.
+   */
+  canDrop?: (drop: ProposedDrop) => boolean;
+
+  /**
+   * Whether a folder takes items dropped, pasted or created INTO it. If
+   * not, it only has "above" and "below" drop zones, like a file.
+   * Defaults to every folder.
+   */
+  canHaveChildren?: (node: TTreeNode) => boolean;
+
+  /**
+   * Checks a proposed name before a rename or create is committed.
+   * Defaults to rejecting empty names and duplicate sibling names.
+   */
+  validateName?: NameValidator;
+
+  /**
+   * Called for Cmd/Ctrl+Z while the tree has focus.
+   * Pair with useTreeHistory to make every change undoable.
+   */
+  onUndo?: () => void;
+
+  /** Called for Cmd/Ctrl+Shift+Z (or Ctrl+Y) while the tree has focus */
+  onRedo?: () => void;
+
+  /**
+   * Fixed row height in px. Fastest for very large trees, but every row
+   * must really be this tall.
+   * If omitted, rows are measured as they render.
+   */
+  rowHeight?: number;
+
+  /**
+   * Save collapsed folders, selection and scroll position under this id
+   * and restore them on the next mount (see persistence.ts).
+   * Read once, on mount. If omitted, nothing is saved.
+   */
+  persist?: PersistOptions;
+
+  /**
+   * Narrows the tree to matching items and the folders containing them
+   * (substring, fuzzy or a predicate - see TreeFilter). Matched characters
+   * are highlighted; keyboard navigation and selection skip everything
+   * else. The user's collapsed folders come back when it's cleared.
+   */
+  filter?: TreeFilter | null;
+
+  /**
+   * Orders every folder's rows by name, folders first, or a comparator
+   * (keep it stable - see SORTING in types.ts). Only the display is
+   * sorted; drops then go INTO folders, with no between-row markers, and
+   * payloads come with `ordering: "sorted"`.
+   * Defaults to "manual": the order of `children`.
+   */
+  sortMode?: TreeSortMode;
+
+  /**
+   * Fetches the children of a lazy folder (`lazy: true`, no children) the
+   * first time it's expanded - by click, key or drag hover. Results are
+   * cached for the life of the tree; a failure shows a retry row.
+   * If omitted, lazy folders just look empty.
+   */
+  loadChildren?: ChildrenLoader;
+
+  /**
+   * Callback when a lazy folder's children have loaded. Merge them into
+   * `data` (setChildren in treeOps.ts does it): until then they only live
+   * in the tree's cache, and commands applied to `data` - rename, move,
+   * delete, copy - can't find them.
+   */
+  onChildrenLoaded?: (parentId: string, children: TTreeNode[]) => void;
+
+  /**
+   * How long (ms) a drag must hover a collapsed folder before it opens.
+   * false turns auto-expanding off. Defaults to 800.
+   */
+  autoExpandDelay?: number | false;
+
+  /**
+   * Folders a drag opens are only open for that drag: they close again
+   * on drop or cancel, except the one the items were dropped into (and
+   * those above it). The user's own collapse state is left untouched.
+   * Defaults to false - they stay open.
+   */
+  springLoaded?: boolean;
+
+  /**
+   * Callback when dragged items are dropped OUTSIDE the tree, on a drop
+   * zone sharing its TreeDndProvider (see useTreeDropZone).
+   * Receives the items (a folder's selected descendants are left out) and
+   * the drop zone's id. The tree itself doesn't change.
+   */
+  onExternalDrop?: (items: TTreeNode[], targetId: string) => void;
+
+  /**
+   * Callback when files or folders are dragged in from the operating
+   * system and dropped - with the same markers as a drag within the tree.
+   * Receives the files (folders with everything inside them), the target
+   * folder and the insert position; the consumer decides what to add.
+   * If omitted, such drops are left to the browser.
+   */
+  onExternalFilesDrop?: (payload: ExternalFilesDropPayload) => void;
 }
 
-export function Tree({ data, onDragEnd }: TreeProps) {
+// =============================================================================
+// STORE PER INSTANCE
+// =============================================================================
+//
+// Tree itself only creates this instance's store and provides it; all the
+// work happens in TreeContent, below the provider, so every hook in it
+// (and in TreeNode, TreeDropMarker, ...) reaches the right store.
+//
+// Persisted state is loaded here, once, so the store starts with it.
+//
+// Outside a TreeDndProvider, Tree brings its own - drags then just stay
+// within this tree (and there's nothing to transfer to).
+//
+// =============================================================================
+
+export function Tree({
+  id,
+  selectedIds,
+  defaultSelectedIds,
+  onSelectionChange,
+  collapsed,
+  defaultCollapsed,
+  onCollapsedChange,
+  ...props
+}: TreeProps) {
+  const generatedId = useId();
+  const treeId = id ?? generatedId;
+  const dnd = useContext(TreeDndContext);
+
+  const [restored] = useState(() =>
+    props.persist ? loadTreeState(props.persist, props.data) : null
+  );
+
+  const store = useControlledTreeStore(
+    treeId,
+    {
+      selectedIds,
+      defaultSelectedIds,
+      onSelectionChange,
+      collapsed,
+      defaultCollapsed,
+      onCollapsedChange,
+    },
+    restored
+  );
+
+  const content = (
+    <TreeStoreContext value={store}>
+      <TreeContent {...props} restoredScrollTop={restored?.scrollTop} />
+    </TreeStoreContext>
+  );
+
+  return dnd ? content : <TreeDndProvider>{content}</TreeDndProvider>;
+}
+
+function TreeContent({
+  data,
+  label,
+  onDragEnd,
+  onRename,
+  onCreate,
+  onDelete,
+  onPaste,
+  confirmDelete,
+  contextMenu,
+  canDrag,
+  canDrop,
+  canHaveChildren,
+  validateName = defaultValidateName,
+  onUndo,
+  onRedo,
+  rowHeight,
+  persist,
+  onExternalDrop,
+  onExternalFilesDrop,
+  filter,
+  sortMode = "manual",
+  loadChildren,
+  onChildrenLoaded,
+  autoExpandDelay,
+  springLoaded = false,
+  restoredScrollTop,
+}: Omit<TreeProps, keyof TreeStateOptions | "id"> & { restoredScrollTop?: number }) {
   // ===========================================================================
   // BUILD INTERNAL TREE
   // ===========================================================================
@@ -66,23 +407,53 @@ export function Tree({ data, onDragEnd }: TreeProps) {
   // Convert the external TTree to InternalTreeNode with parent/depth info.
   // This is memoized to avoid rebuilding on every render.
   //
-  // Only rebuilds when `data` reference changes (new tree data).
+  // Only rebuilds when `data` reference changes (new tree data), or when a
+  // "new item" placeholder is added/removed (it lives only in OUR tree).
+  //
+  // Lazy folders' children, once loaded, are merged in first - they live
+  // only in our tree too (see useLazyChildren.ts).
+  //
+  // nodesById comes out of the same walk: every "node for this id" lookup
+  // below goes through it, never a search of the tree.
   //
   // ===========================================================================
 
-  const internalRoot = useMemo(() => buildInternalTree(data), [data]);
+  const store = useTreeStoreApi();
+  const dnd = useTreeDnd();
+  const treeId = useTreeStore((state) => state.treeId);
+  const pendingCreate = useTreeStore((state) => state.pendingCreate);
+
+  const {
+    data: loadedData,
+    statusRows,
+    retry: retryLoad,
+  } = useLazyChildren(data, loadChildren, onChildrenLoaded);
+
+  const internalTree = useMemo(() => {
+    const tree = buildInternalTree(loadedData);
+    if (pendingCreate) {
+      insertPlaceholder(tree, pendingCreate);
+    }
+    return tree;
+  }, [loadedData, pendingCreate]);
+
+  const { root: internalRoot, nodesById } = internalTree;
 
   // ===========================================================================
   // SUBSCRIBE TO STORE
   // ===========================================================================
 
-  const collapsed = useTreeStore((state) => state.collapsed);
-  const draggingIds = useTreeStore((state) => state.draggingIds);
+  const collapsed = useTreeStore(selectCollapsed);
   const setSelectedIds = useTreeStore((state) => state.setSelectedIds);
   const setAnchorId = useTreeStore((state) => state.setAnchorId);
+  const setFocusedId = useTreeStore((state) => state.setFocusedId);
   const setDraggingIds = useTreeStore((state) => state.setDraggingIds);
   const setHoveredParent = useTreeStore((state) => state.setHoveredParent);
+  const clearHoveredParent = useTreeStore((state) => state.clearHoveredParent);
   const clearDragState = useTreeStore((state) => state.clearDragState);
+  const endSpringLoading = useTreeStore((state) => state.endSpringLoading);
+  const startCreating = useTreeStore((state) => state.startCreating);
+  const setEditingId = useTreeStore((state) => state.setEditingId);
 
   // ===========================================================================
   // FLATTEN TREE
@@ -94,9 +465,28 @@ export function Tree({ data, onDragEnd }: TreeProps) {
   //   - Range selection
   //   - Drop positioning
   //
+  // With a filter, only its matches and their folders are in it (see
+  // useTreeFilter.ts) - and so everything above only sees those.
+  //
+  // With a sortMode, it's in sorted order - and drops only go INTO
+  // folders (`sorted`, see SORTING in types.ts).
+  //
   // ===========================================================================
 
-  const selectableItems = useSelectableItems(internalRoot, collapsed);
+  const filterResult = useTreeFilter(internalRoot, filter);
+  const selectableItems = useSelectableItems(
+    internalRoot,
+    collapsed,
+    filterResult,
+    sortMode
+  );
+  const sorted = sortMode !== "manual";
+
+  // id → row index, so the drag handlers find the hovered row in O(1)
+  const visibleIndexById = useMemo(
+    () => indexSelectableItems(selectableItems),
+    [selectableItems]
+  );
 
   // ===========================================================================
   // INITIALIZE SELECTION
@@ -108,32 +498,482 @@ export function Tree({ data, onDragEnd }: TreeProps) {
   // ===========================================================================
 
   useEffect(() => {
-    const currentSelection = useTreeStore.getState().selectedIds;
+    const currentSelection = store.getState().selectedIds;
     if (currentSelection.length === 0 && selectableItems.length > 0) {
       const firstItem = selectableItems[0].node.item;
       setSelectedIds([firstItem.id]);
       setAnchorId(firstItem.id);
+      setFocusedId(firstItem.id);
+    }
+  }, [store, selectableItems, setSelectedIds, setAnchorId, setFocusedId]);
+
+  // ===========================================================================
+  // KEEP FOCUS ON A VISIBLE ITEM
+  // ===========================================================================
+  //
+  // The focused item can disappear from the flat list:
+  //   - An ancestor folder was collapsed → focus its closest visible ancestor
+  //   - It was removed from the data     → focus the first item
+  //
+  // Without this, the tree would have NO tab stop and keyboard users
+  // couldn't get back in.
+  //
+  // ===========================================================================
+
+  useEffect(() => {
+    const { focusedId } = store.getState();
+    if (selectableItems.length === 0) return;
+
+    if (focusedId && visibleIndexById.has(focusedId)) return;
+
+    // Walk UP from the (now hidden) node until we hit something visible
+    let candidate = focusedId ? nodesById.get(focusedId) : undefined;
+    while (candidate && !visibleIndexById.has(candidate.item.id)) {
+      candidate = candidate.parent ?? undefined;
+    }
+
+    setFocusedId(candidate?.item.id ?? selectableItems[0].node.item.id);
+  }, [store, nodesById, selectableItems, visibleIndexById, setFocusedId]);
+
+  // ===========================================================================
+  // NEW FILE / FOLDER
+  // ===========================================================================
+  //
+  // Shows a placeholder row in rename mode next to the focused item.
+  // TreeNode emits onCreate when the name is committed (see
+  // handleRenameCommit there); cancelling just removes the placeholder.
+  //
+  // ===========================================================================
+
+  const handleNewItem = (type: TreeNodeType) => {
+    const { focusedId, pendingCreate: current } = store.getState();
+
+    // Starting a second create replaces the first - return focus to where
+    // the FIRST one came from, not to the first placeholder
+    const returnFocusId = current ? current.returnFocusId : focusedId;
+    const target = getCreateTarget(internalTree, returnFocusId, canHaveChildren);
+
+    startCreating({ ...target, type, returnFocusId });
+  };
+
+  // ===========================================================================
+  // DELETE SELECTION
+  // ===========================================================================
+  //
+  // 1. Resolve selectedIds to the topmost nodes (a selected folder swallows
+  //    its selected descendants)
+  // 2. If any of them is a folder with contents (or a lazy one that hasn't
+  //    loaded - it may well have some), ask confirmDelete
+  // 3. Emit onDelete - the consumer removes the items from its data
+  // 4. Move selection + focus to the next surviving visible item
+  //
+  // onDelete goes first so a consumer that records the selection with the
+  // change (useTreeHistory) sees the deleted items still selected - undo
+  // then brings them back selected.
+  //
+  // Step 4 still happens BEFORE the rows disappear (React batches the
+  // updates): we park DOM focus on the tree container so the roving-focus
+  // effect can hand it to the new row.
+  //
+  // confirmDelete may take its time (a dialog), and the tree may change
+  // meanwhile - so step 4 reads the visible rows as they are by then. A
+  // confirmDelete that throws or rejects counts as "no".
+  //
+  // ===========================================================================
+
+  const treeRef = useRef<HTMLDivElement>(null);
+
+  const selectableItemsRef = useRef(selectableItems);
+  useLayoutEffect(() => {
+    selectableItemsRef.current = selectableItems;
+  });
+
+  const handleDeleteSelection = async () => {
+    if (!onDelete) return;
+
+    const { selectedIds } = store.getState();
+    const nodes = getTopmostNodes(internalRoot, selectedIds);
+    if (nodes.length === 0) return;
+
+    const payload: DeletePayload = {
+      items: nodes.map((n) => n.item),
+      parents: nodes.map((n) => n.parent!.item),
+    };
+
+    const hasContents = nodes.some(
+      (n) =>
+        n.item.type === "directory" &&
+        ((n.children?.length ?? 0) > 0 || isUnloaded(n.item))
+    );
+    if (hasContents && confirmDelete) {
+      try {
+        if (!(await confirmDelete(payload))) return;
+      } catch {
+        return;
+      }
+    }
+
+    onDelete(payload);
+
+    const next = findNextSurvivor(
+      selectableItemsRef.current,
+      nodes.map((n) => n.item.id)
+    );
+    const nextId = next?.node.item.id ?? null;
+
+    if (treeRef.current?.contains(document.activeElement)) {
+      treeRef.current.focus();
     }
-  }, [selectableItems, setSelectedIds, setAnchorId]);
+    setSelectedIds(nextId ? [nextId] : []);
+    setAnchorId(nextId);
+    setFocusedId(nextId);
+  };
+
+  // ===========================================================================
+  // CLIPBOARD
+  // ===========================================================================
+  //
+  // Cut/copy/paste of the selection (see useTreeClipboard.ts). Cut rows
+  // stay where they are, dimmed, until they're pasted.
+  //
+  // ===========================================================================
+
+  const clipboard = useTreeClipboard({
+    tree: internalTree,
+    validateName,
+    canDrag,
+    canDrop,
+    canHaveChildren,
+    sorted,
+    onPaste,
+  });
+
+  // ===========================================================================
+  // FILES FROM THE OS
+  // ===========================================================================
+  //
+  // Native drags of files, dropped with the same markers as our own drags
+  // (see useExternalFileDrop.ts). null without onExternalFilesDrop.
+  //
+  // ===========================================================================
+
+  const fileDrop = useExternalFileDrop({
+    tree: internalTree,
+    selectableItems,
+    visibleIndexById,
+    canHaveChildren,
+    sorted,
+    onExternalFilesDrop,
+  });
+
+  // ===========================================================================
+  // CONTEXT MENU
+  // ===========================================================================
+  //
+  // Right-click (or the ContextMenu key / Shift+F10) on a row:
+  //   1. Update selection the same way handleDragStart does:
+  //        - row already selected   → keep the whole selection
+  //        - row NOT selected       → select just that row
+  //   2. Ask the consumer's `contextMenu` for a menu model
+  //   3. Render it at the pointer (or under the row for keyboard opens)
+  //
+  // Menu items can't reach our store, so they get `treeActions` instead.
+  // When the menu closes, focus returns to the row it was opened from.
+  //
+  // ===========================================================================
+
+  const [menu, setMenu] = useState<{
+    entries: ContextMenuEntry[];
+    x: number;
+    y: number;
+  } | null>(null);
+  const menuReturnFocusRef = useRef<HTMLElement | null>(null);
+
+  const treeActions: TreeActions = {
+    rename: (id) => {
+      if (!onRename) return;
+      setFocusedId(id);
+      setEditingId(id);
+    },
+    create: (type) => {
+      if (onCreate) handleNewItem(type);
+    },
+    deleteSelection: () => {
+      void handleDeleteSelection();
+    },
+    cut: clipboard.cut,
+    copy: clipboard.copy,
+    paste: clipboard.paste,
+  };
+
+  const handleOpenContextMenu = (
+    node: InternalTreeNode,
+    position: { x: number; y: number },
+    row: HTMLElement | null
+  ): boolean => {
+    if (!contextMenu) return false;
+
+    const id = node.item.id;
+    if (!store.getState().selectedSet.has(id)) {
+      setSelectedIds([id]);
+      setAnchorId(id);
+    }
+    setFocusedId(id);
+
+    const selection = getSelectedItems(
+      nodesById,
+      store.getState().selectedIds
+    );
+
+    const entries = contextMenu(node, selection, treeActions);
+    if (entries.length === 0) return false;
+
+    menuReturnFocusRef.current = row;
+    setMenu({ entries, ...position });
+    return true;
+  };
+
+  const closeMenu = useCallback(() => {
+    setMenu(null);
+    menuReturnFocusRef.current?.focus();
+    menuReturnFocusRef.current = null;
+  }, []);
+
+  // ===========================================================================
+  // KEYBOARD NAVIGATION
+  // ===========================================================================
+  //
+  // Arrow keys, Home/End, Shift+Arrow range selection, F2/Enter rename,
+  // Delete/Backspace, the context menu key, undo/redo and type-ahead.
+  // See useTreeKeyboard.ts for the full key map.
+  //
+  // ===========================================================================
+
+  const handleKeyDown = useTreeKeyboard(selectableItems, visibleIndexById, {
+    canRename: onRename !== undefined,
+    onDeleteSelection: onDelete ? handleDeleteSelection : undefined,
+    onOpenContextMenu: contextMenu
+      ? (node, row) => {
+          const rect = row.getBoundingClientRect();
+          handleOpenContextMenu(node, { x: rect.left + 16, y: rect.bottom }, row);
+        }
+      : undefined,
+    onUndo,
+    onRedo,
+  });
 
   // ===========================================================================
-  // DND-KIT SENSORS
+  // VIRTUALIZATION
   // ===========================================================================
   //
-  // Configure how drag operations are activated.
-  // We use PointerSensor with a distance constraint to:
+  // Only the rows near the viewport are mounted (see useVirtualRows.ts).
+  // Everything else keeps working because it's driven by the flat
+  // selectableItems array, not by the DOM:
+  //
+  //   - Keyboard navigation and range selection walk selectableItems
+  //   - Drop markers and the inside-ring read hoveredParent from the store;
+  //     whichever row is mounted at that index draws it
+  //   - Pointer drags only ever hover MOUNTED rows, and dnd-kit re-measures
+  //     droppables as rows mount/unmount (MeasuringStrategy.Always below)
+  //   - Keyboard drags position the overlay from row offsets (revealRow)
+  //   - Auto-expand lives in the hovered row, which is mounted by definition
+  //
+  // The focused row is pinned (always mounted): it may hold DOM focus, and
+  // the row being dragged is focused at drag start (see handleDragStart),
+  // so dnd-kit never loses its active node mid-drag.
+  //
+  // ===========================================================================
+
+  const focusedId = useTreeStore((state) => state.focusedId);
+
+  const rowKeys = useMemo(
+    () => selectableItems.map((s) => s.node.item.id),
+    [selectableItems]
+  );
+  const focusedIndex = focusedId ? (visibleIndexById.get(focusedId) ?? -1) : -1;
+
+  // A folder still loading its children shares its slot with a status row
+  const rowLines = useMemo(
+    () => new Map([...statusRows.keys()].map((id) => [id, 2])),
+    [statusRows]
+  );
+
+  const { listRef, rows, totalHeight, measureRef, revealRow } = useVirtualRows({
+    scrollRef: treeRef,
+    keys: rowKeys,
+    rowHeight,
+    lines: rowLines,
+    estimatedRowHeight: ESTIMATED_ROW_HEIGHT,
+    pinned: [focusedIndex],
+  });
+
+  // ===========================================================================
+  // PERSISTENCE
+  // ===========================================================================
+  //
+  // Saves state as it changes and restores the scroll position. After
+  // useVirtualRows, whose scroll listener must be in place to pick up the
+  // restored position.
+  //
+  // ===========================================================================
+
+  useTreePersistence({
+    persist,
+    store,
+    data: loadedData,
+    scrollRef: treeRef,
+    initialScrollTop: restoredScrollTop,
+  });
+
+  // ===========================================================================
+  // AUTO SCROLL
+  // ===========================================================================
+  //
+  // Pointer drags: hovering near the top/bottom edge scrolls the tree,
+  //   faster the closer to the edge (see useEdgeAutoScroll.ts). dnd-kit's
+  //   own auto scroll is switched off on the DndContext.
+  //
+  // Keyboard drags: there's no pointer to hover with - each step scrolls
+  //   its target into view instead, keeping AUTO_SCROLL_EDGE px of context
+  //   beyond it so the user can see where the next step goes
+  //   (see keyboardTreeRef below).
+  //
+  // ===========================================================================
+
+  const [isPointerDragging, setIsPointerDragging] = useState(false);
+  useEdgeAutoScroll(treeRef, isPointerDragging);
+
+  // ===========================================================================
+  // DROP RULES
+  // ===========================================================================
+  //
+  // canDrop is asked with the items that would actually arrive: the
+  // topmost dragged ones, captured at drag start (they can't change
+  // mid-drag) - or, for another tree's rows, the transfer's.
+  //
+  // ===========================================================================
+
+  const draggedItemsRef = useRef<TTreeNode[]>([]);
+
+  const isDropAllowed = (
+    parent: InternalTreeNode,
+    insertAt: number,
+    items: TTreeNode[],
+    operation: ProposedDrop["operation"]
+  ) => !canDrop || canDrop({ items, parent: parent.item, insertAt, operation });
+
+  const keyboardRules = useMemo<KeyboardDropRules>(
+    () => ({
+      canHaveChildren,
+      sorted,
+      allowsDrop: canDrop
+        ? (parent, childIndex) =>
+            canDrop({
+              items: draggedItemsRef.current,
+              parent: parent.item,
+              insertAt: childIndex,
+              operation: dnd.getDragOperation(),
+            })
+        : undefined,
+    }),
+    [canHaveChildren, sorted, canDrop, dnd]
+  );
+
+  // ===========================================================================
+  // KEYBOARD DRAGS
+  // ===========================================================================
+  //
+  // The sensors live in TreeDndProvider:
+  //
+  // PointerSensor with a distance constraint to:
   //   - Prevent accidental drags (need to move 8px first)
   //   - Allow click events to work normally
   //
+  // KeyboardSensor for mouse-free moves:
+  //   - Space on a focused row picks up the selection
+  //   - ArrowUp/ArrowDown step through valid drop positions
+  //   - Enter drops, Escape cancels
+  //   See keyboardDrag.ts for how positions are enumerated.
+  //
+  // The keyboard sensor asks the tree that owns the drag where to go next;
+  // this is our answer.
+  //
+  // ===========================================================================
+
+  // dnd-kit keeps the sensor options from the moment the drag STARTED, so
+  // the coordinate getter reads the latest tree through a ref rather than
+  // a closure that would go stale when a folder auto-expands mid-drag.
+  const keyboardTreeRef = useRef<KeyboardDragTree>({
+    store,
+    root: internalRoot,
+    selectableItems,
+    indexById: visibleIndexById,
+    rules: keyboardRules,
+    revealRow: (index) => revealRow(index, AUTO_SCROLL_EDGE),
+  });
+  useEffect(() => {
+    keyboardTreeRef.current = {
+      store,
+      root: internalRoot,
+      selectableItems,
+      indexById: visibleIndexById,
+      rules: keyboardRules,
+      revealRow: (index) => revealRow(index, AUTO_SCROLL_EDGE),
+    };
+  }, [store, internalRoot, selectableItems, visibleIndexById, keyboardRules, revealRow]);
+
+  const coordinateGetter: KeyboardCoordinateGetter = (event, args) =>
+    stepKeyboardDrop(event, args, keyboardTreeRef.current, dnd.getDragOperation());
+
+  // ===========================================================================
+  // SCREEN READER ANNOUNCEMENTS
+  // ===========================================================================
+  //
+  // Replace dnd-kit's ID-based announcements with structural ones:
+  //   "Picked up 3 items."
+  //   "Moving 3 items into refunds at position 2."
+  //   "Moved 3 items into refunds at position 2."
+  // ("Copying" / "Copied" while Alt/Option is held)
+  //
+  // dnd-kit calls these right AFTER our handlers, so the store already holds
+  // the latest draggingIds/hoveredParent. The one exception is drag end:
+  // handleDragEnd clears the store, so it leaves its message in a ref.
+  //
   // ===========================================================================
 
-  const sensors = useSensors(
-    useSensor(PointerSensor, {
-      activationConstraint: {
-        distance: 8, // Must move 8px before drag activates
+  const dropAnnouncementRef = useRef<string | null>(null);
+
+  const announcements = useMemo<Announcements>(() => {
+    const getDraggedItems = () =>
+      getSelectedItems(nodesById, store.getState().draggingIds);
+
+    return {
+      onDragStart: () => `Picked up ${describeItems(getDraggedItems())}.`,
+      onDragMove: ({ over }) => {
+        const { hoveredParent } = store.getState();
+        const what = describeItems(getDraggedItems());
+        const verb = dnd.getDragOperation() === "copy" ? "Copying" : "Moving";
+
+        if (over && !isOwnDroppable(over.data.current, treeId)) {
+          const label = over.data.current?.label ?? over.id;
+          return `${verb} ${what} over ${label}.`;
+        }
+
+        if (hoveredParent.rejected) {
+          return `${what} can't be dropped here.`;
+        }
+
+        const where = describeDropTarget(nodesById, hoveredParent, sorted);
+        return where
+          ? `${verb} ${what} ${where}.`
+          : `${what} is not over a valid drop target.`;
       },
-    })
-  );
+      // onDragMove already covers every change of target
+      onDragOver: () => undefined,
+      onDragEnd: () => dropAnnouncementRef.current ?? undefined,
+      onDragCancel: () => "Move cancelled. Nothing was moved.",
+    };
+  }, [store, dnd, treeId, nodesById, sorted]);
 
   // ===========================================================================
   // DRAG START HANDLER
@@ -147,21 +987,139 @@ export function Tree({ data, onDragEnd }: TreeProps) {
   //   CASE 2: Dragging an UNSELECTED item
   //     → Change selection to just that item, drag only it
   //
+  // Selected items canDrag refuses stay where they are. (The row being
+  // dragged passed it - TreeNode doesn't let the others be picked up.)
+  //
   // ===========================================================================
 
   const handleDragStart = (event: DragStartEvent) => {
-    const activeId = event.active.id as string;
-    const selectedIds = useTreeStore.getState().selectedIds;
-
-    if (selectedIds.includes(activeId)) {
-      // Case 1: Dragging a selected item → drag all selected
-      setDraggingIds(selectedIds);
+    const activeId = getItemId(event.active.data.current);
+    if (activeId === null) return;
+
+    const { selectedIds, selectedSet } = store.getState();
+
+    if (selectedSet.has(activeId)) {
+      // Case 1: Dragging a selected item → drag all selected (that may move)
+      setDraggingIds(
+        canDrag
+          ? selectedIds.filter((id) => {
+              const node = nodesById.get(id);
+              return node !== undefined && canDrag(node.item);
+            })
+          : selectedIds
+      );
     } else {
       // Case 2: Dragging unselected → select it and drag just it
       setDraggingIds([activeId]);
       setSelectedIds([activeId]);
       setAnchorId(activeId);
     }
+
+    // Tell the provider what's moving (drag overlay, external drop zones,
+    // other trees)
+    const dragged = getTopmostNodes(internalRoot, store.getState().draggingIds);
+    draggedItemsRef.current = dragged.map((n) => n.item);
+    dnd.setActiveDrag({
+      treeId,
+      items: dragged.map((n) => n.item),
+      parents: dragged.map((n) => n.parent!.item),
+    });
+
+    if (!(event.activatorEvent instanceof KeyboardEvent)) {
+      setIsPointerDragging(true);
+    }
+
+    // The dragged row becomes the focused one - which also pins it while
+    // virtualized (see VIRTUALIZATION)
+    setFocusedId(activeId);
+
+    // -------------------------------------------------------------------------
+    // Keyboard drags start ON the picked-up item
+    // -------------------------------------------------------------------------
+    //
+    // There's no pointer to hover with, so place the drop target right where
+    // the item already is. Pressing Enter immediately is then a no-op, and
+    // the first ArrowUp/ArrowDown steps to the neighbouring position.
+    // (While sorted, "where it is" is its folder - see keyboardDrag.ts.)
+    //
+    // -------------------------------------------------------------------------
+
+    if (event.activatorEvent instanceof KeyboardEvent) {
+      const state = store.getState();
+      const positions = getKeyboardDropPositions(
+        internalRoot,
+        selectableItems,
+        selectCollapsed(state),
+        state.draggingIds,
+        dnd.getDragOperation(),
+        keyboardRules
+      );
+      const parentId = nodesById.get(activeId)?.parent?.item.id;
+      const start =
+        positions.find((p) =>
+          sorted
+            ? p.parentId === parentId
+            : p.overId === activeId && p.dropIntent === "above"
+        ) ?? positions[0];
+
+      if (start) {
+        setHoveredParent(toHoveredParent(start));
+      }
+    }
+  };
+
+  // ===========================================================================
+  // TRANSFERS FROM OTHER TREES
+  // ===========================================================================
+  //
+  // Rows dragged in from another tree sharing our provider (see TRANSFERS
+  // in treeDnd.ts). The provider builds the payload - or refuses it - and
+  // we check it against OUR rules (validateTransfer): while hovering, so
+  // no marker is drawn where the drop would be refused, and again when the
+  // provider asks for the payload on drop. canDrop is asked too, but a
+  // target it rejects still shows, in red (see handleDragMove).
+  //
+  // ===========================================================================
+
+  const resolveIncomingTransfer = (
+    parent: InternalTreeNode,
+    insertAt: number
+  ): TreeTransferPayload | null => {
+    const payload = dnd.resolveTransfer({
+      treeId,
+      parent: parent.item,
+      children: (parent.children ?? []).map((child) => child.item),
+      insertAt,
+      ordering: sorted ? "sorted" : "manual",
+    });
+    if (!payload) return null;
+
+    return validateTransfer(payload, parent, nodesById, validateName) === null
+      ? payload
+      : null;
+  };
+
+  const getIncomingTransfer = (): TreeTransferPayload | null => {
+    const { hoveredParent } = store.getState();
+    if (
+      !hoveredParent.parentId ||
+      hoveredParent.childIndex === null ||
+      hoveredParent.rejected
+    ) {
+      return null;
+    }
+
+    const parent = nodesById.get(hoveredParent.parentId);
+    const payload = parent
+      ? resolveIncomingTransfer(parent, hoveredParent.childIndex)
+      : null;
+
+    // The items are coming in: spring-loaded folders they go into stay
+    // open (the provider cancels the drag for us right after)
+    if (payload) {
+      endSpringLoading(getDropPath(nodesById, hoveredParent));
+    }
+    return payload;
   };
 
   // ===========================================================================
@@ -184,25 +1142,98 @@ export function Tree({ data, onDragEnd }: TreeProps) {
   //   - Scroll-proof positioning
   //   - Actual data updates on drop
   //
+  // Called for EVERY drag in the provider, including rows of other trees
+  // (isIncoming) - this tree may be the one they'd drop into.
+  //
   // ===========================================================================
 
   const handleDragMove = (event: DragMoveEvent) => {
     const { over, active } = event;
 
+    // Keyboard drags step through positions in the coordinate getter;
+    // the overlay's geometry is irrelevant to where they drop.
+    if (event.activatorEvent instanceof KeyboardEvent) return;
+
+    const isIncoming = !isOwnDroppable(active.data.current, treeId);
+    if (isIncoming) {
+      // Our edges scroll for other trees' rows too
+      setIsPointerDragging(true);
+    }
+
     // -------------------------------------------------------------------------
     // No valid drop target
     // -------------------------------------------------------------------------
-    if (!over) {
-      setHoveredParent({
-        parentId: null,
-        parentDepth: null,
-        index: null,
-        childIndex: null,
-        dropIntent: null,
-      });
+    //
+    // Over nothing, or over something that isn't ours (an external drop
+    // zone, another tree): no marker, no ring - the overlay alone follows
+    // the pointer.
+    //
+    // -------------------------------------------------------------------------
+    if (!over || !isOwnDroppable(over.data.current, treeId)) {
+      clearHoveredParent();
       return;
     }
 
+    // -------------------------------------------------------------------------
+    // Can the items go there?
+    // -------------------------------------------------------------------------
+    //
+    //   allowed  → the usual marker or ring
+    //   rejected → the same, in red (see DRAG AND DROP RULES in types.ts):
+    //              a MOVE into the folder itself or a descendant - COPYING
+    //              it there is fine, the original stays put (canDropInto) -
+    //              or a target canDrop refuses
+    //   null     → no target at all: another tree's rows we don't take
+    //              (no transfers, canTransfer, a name clash - see
+    //              validateTransfer)
+    //
+    // -------------------------------------------------------------------------
+
+    const operation = dnd.getDragOperation();
+    const { draggingSet } = store.getState();
+
+    const checkDrop = (
+      parent: InternalTreeNode,
+      childIndex: number
+    ): "allowed" | "rejected" | null => {
+      if (isIncoming) {
+        const transfer = resolveIncomingTransfer(parent, childIndex);
+        if (!transfer) return null;
+
+        const { items } = transfer.source;
+        return isDropAllowed(parent, childIndex, items, transfer.operation)
+          ? "allowed"
+          : "rejected";
+      }
+
+      return canDropInto(parent, draggingSet, operation) &&
+        isDropAllowed(parent, childIndex, draggedItemsRef.current, operation)
+        ? "allowed"
+        : "rejected";
+    };
+
+    const showDropTarget = (
+      parent: InternalTreeNode,
+      childIndex: number,
+      index: number,
+      dropIntent: "above" | "below" | "inside"
+    ) => {
+      const check = checkDrop(parent, childIndex);
+      if (check === null) {
+        clearHoveredParent();
+        return;
+      }
+
+      setHoveredParent({
+        parentId: parent.item.id,
+        parentDepth: parent.depth,
+        index,
+        childIndex,
+        dropIntent,
+        rejected: check === "rejected",
+      });
+    };
+
     // -------------------------------------------------------------------------
     // Handle catch zones (start/end of list)
     // -------------------------------------------------------------------------
@@ -210,53 +1241,47 @@ export function Tree({ data, onDragEnd }: TreeProps) {
     // Catch zones are special droppable areas at the top and bottom of the list.
     // They make it easier to drop items at the very start or end.
     //
+    // While sorted, both simply mean "into the root" (there's no start or
+    // end to speak of) - the tree's own ring shows it.
+    //
     // -------------------------------------------------------------------------
 
-    const overId = over.id as string;
+    const overData = over.data.current;
 
-    if (overId === "__catch_zone_start__") {
+    if (overData?.type === "catch-zone" && sorted) {
+      const rootChildCount = internalRoot.children?.length ?? 0;
+      showDropTarget(internalRoot, rootChildCount, 0, "inside");
+      return;
+    }
+
+    if (overData?.type === "catch-zone" && overData.position === "start") {
       // Dropping at the very start of the list
-      setHoveredParent({
-        parentId: internalRoot.item.id,
-        parentDepth: internalRoot.depth,
-        index: 0,
-        childIndex: 0,
-        dropIntent: "above",
-      });
+      showDropTarget(internalRoot, 0, 0, "above");
       return;
     }
 
-    if (overId === "__catch_zone_end__") {
+    if (overData?.type === "catch-zone" && overData.position === "end") {
       // Dropping at the very end of the list
-      const lastIndex = selectableItems.length;
       const rootChildCount = internalRoot.children?.length ?? 0;
-      setHoveredParent({
-        parentId: internalRoot.item.id,
-        parentDepth: internalRoot.depth,
-        index: lastIndex,
-        childIndex: rootChildCount,
-        dropIntent: "below",
-      });
+      showDropTarget(internalRoot, rootChildCount, selectableItems.length, "below");
       return;
     }
 
     // -------------------------------------------------------------------------
     // Find the node being hovered over
     // -------------------------------------------------------------------------
-    const overItem = selectableItems.find(
-      (s) => s.node.item.id === over.id
-    );
-    if (!overItem) return;
+    const overItemId = getItemId(overData);
+    const overIndex =
+      overItemId === null ? undefined : visibleIndexById.get(overItemId);
+    if (overIndex === undefined) return;
+    const overItem = selectableItems[overIndex];
 
     // -------------------------------------------------------------------------
     // Compute position ratio within the hovered item
     // -------------------------------------------------------------------------
     //
-    // For FILES: Simple 50/50 split (above/below)
-    // For FOLDERS: 3-zone detection (25% above / 50% inside / 25% below)
-    //
-    // This fixes the issue where hovering over a folder shows BOTH the
-    // drop line AND the "drop inside" ring simultaneously.
+    // The above / inside / below zones themselves are shared with file
+    // drops from the OS - see getRowDropTarget.
     //
     // -------------------------------------------------------------------------
 
@@ -270,112 +1295,21 @@ export function Tree({ data, onDragEnd }: TreeProps) {
     const relativeY = activeCenter - overRect.top;
     const ratio = relativeY / overRect.height;
 
-    const overNode = overItem.node;
-    const isOverDirectory = overNode.item.type === "directory";
-    const isOverCollapsed = collapsed[overNode.item.id] ?? false;
-    const isOverExpanded = isOverDirectory && !isOverCollapsed;
-    const hasChildren = overNode.children && overNode.children.length > 0;
-
-    // -------------------------------------------------------------------------
-    // Determine drop intent and target
-    // -------------------------------------------------------------------------
-    //
-    // FOR FILES (simple 50/50 split):
-    //   - Top 50%: "above" → insert before file
-    //   - Bottom 50%: "below" → insert after file
-    //
-    // FOR FOLDERS (3-zone detection):
-    //   - Top 25%: "above" → insert before folder (as sibling)
-    //   - Middle 50%: "inside" → insert into folder (as child)
-    //   - Bottom 25%: "below" → insert after folder (as sibling)
-    //
-    // EXCEPTION: Expanded folders with children
-    //   - When hovering bottom zone of expanded folder, we DON'T show "below"
-    //   - Instead, the first child handles that position
-    //   - So expanded folders only have: top 25% = above, rest = inside
-    //
-    // -------------------------------------------------------------------------
-
-    let targetParent: InternalTreeNode | null;
-    let targetChildIndex: number;
-    let dropIntent: "above" | "below" | "inside";
-    let flatIndex: number;
-
-    if (!isOverDirectory) {
-      // -----------------------------------------------------------------------
-      // FILE: Simple above/below
-      // -----------------------------------------------------------------------
-      if (ratio < 0.5) {
-        dropIntent = "above";
-        targetParent = overNode.parent;
-        targetChildIndex = getChildIndex(overNode);
-        flatIndex = overItem.index;
-      } else {
-        dropIntent = "below";
-        targetParent = overNode.parent;
-        targetChildIndex = getChildIndex(overNode) + 1;
-        flatIndex = overItem.index + 1;
-      }
-    } else {
-      // -----------------------------------------------------------------------
-      // FOLDER: 3-zone detection
-      // -----------------------------------------------------------------------
-      if (ratio < 0.25) {
-        // Top 25%: drop ABOVE folder (as sibling)
-        dropIntent = "above";
-        targetParent = overNode.parent;
-        targetChildIndex = getChildIndex(overNode);
-        flatIndex = overItem.index;
-      } else if (ratio > 0.75 && !isOverExpanded) {
-        // Bottom 25% of COLLAPSED folder: drop BELOW folder (as sibling)
-        // Note: expanded folders don't have a "below" zone - their children handle that
-        dropIntent = "below";
-        targetParent = overNode.parent;
-        targetChildIndex = getChildIndex(overNode) + 1;
-        flatIndex = overItem.index + 1;
-      } else {
-        // Middle 50% (or bottom of expanded folder): drop INSIDE folder
-        dropIntent = "inside";
-        targetParent = overNode;
-        // If expanded with children, insert at start; otherwise at position 0
-        targetChildIndex = 0;
-        // For inside drops, we don't show a line marker (flatIndex doesn't matter)
-        // but we still need a valid value for the store
-        flatIndex = isOverExpanded && hasChildren ? overItem.index + 1 : overItem.index;
-      }
-    }
+    const target = getRowDropTarget(overItem, ratio, collapsed, {
+      canHaveChildren,
+      sorted,
+    });
 
     // -------------------------------------------------------------------------
-    // Validate: prevent dropping into self or descendant
-    // -------------------------------------------------------------------------
-    //
-    // You can't drop FolderA into FolderA or any of its children.
-    // This would create a circular structure or just be nonsensical.
-    //
+    // Update store with new drop target
     // -------------------------------------------------------------------------
 
-    if (targetParent) {
-      const currentDraggingIds = useTreeStore.getState().draggingIds;
-      for (const dragId of currentDraggingIds) {
-        if (hasAncestor(targetParent, dragId)) {
-          // Invalid drop target - dragging into self/descendant
-          // Keep previous hover state or clear it
-          return;
-        }
-      }
+    if (!target.parent) {
+      clearHoveredParent();
+      return;
     }
 
-    // -------------------------------------------------------------------------
-    // Update store with new drop target
-    // -------------------------------------------------------------------------
-
-    setHoveredParent({
-      parentId: targetParent?.item.id ?? null,
-      parentDepth: targetParent?.depth ?? null,
-      index: flatIndex,
-      childIndex: targetChildIndex,
-      dropIntent,
-    });
+    showDropTarget(target.parent, target.childIndex, target.index, target.dropIntent);
   };
 
   // ===========================================================================
@@ -397,17 +1331,66 @@ export function Tree({ data, onDragEnd }: TreeProps) {
 
   const handleDragEnd = (event: DragEndEvent) => {
     // Get current drag state
-    const { hoveredParent } = useTreeStore.getState();
-    const currentDraggingIds = useTreeStore.getState().draggingIds;
+    const { hoveredParent } = store.getState();
+    const currentDraggingIds = store.getState().draggingIds;
+    const operation = dnd.getDragOperation();
 
-    // Clear drag state first (before any early returns)
+    // Clear drag state first (before any early returns) - spring-loaded
+    // folders close, except the ones the drop goes into
     clearDragState();
+    endSpringLoading(getDropPath(nodesById, hoveredParent));
+    setIsPointerDragging(false);
+    dnd.setActiveDrag(null);
+
+    // Assume nothing happens until we actually emit a payload below
+    dropAnnouncementRef.current = "Dropped. Nothing was moved.";
+
+    // (Keyboard drags don't need to be "over" anything - the target was
+    //  chosen by stepping, not by collision detection)
+    const isKeyboardDrag = event.activatorEvent instanceof KeyboardEvent;
+
+    // -------------------------------------------------------------------------
+    // Dropped outside the tree
+    // -------------------------------------------------------------------------
+    //
+    // On another tree: the provider has already handed the transfer to its
+    // onTransfer (see TRANSFERS in treeDnd.ts) - nothing left to do here.
+    //
+    // On an external drop zone (see useTreeDropZone): report it.
+    //
+    // Keyboard drags only step between our own positions, so whatever they
+    // happen to overlap doesn't count.
+    //
+    // -------------------------------------------------------------------------
+
+    if (
+      event.over &&
+      !isKeyboardDrag &&
+      !isOwnDroppable(event.over.data.current, treeId)
+    ) {
+      if (isTreeDroppable(event.over.data.current)) return;
+
+      const items = getTopmostNodes(internalRoot, currentDraggingIds).map(
+        (n) => n.item
+      );
+      if (!onExternalDrop || items.length === 0) return;
+
+      const label = event.over.data.current?.label ?? event.over.id;
+      dropAnnouncementRef.current = `Dropped ${describeItems(items)} on ${label}.`;
+      onExternalDrop(items, String(event.over.id));
+      return;
+    }
 
     // -------------------------------------------------------------------------
-    // Validate we have a drop target
+    // Validate we have a drop target (and one that takes the items)
     // -------------------------------------------------------------------------
 
-    if (!event.over || !hoveredParent.parentId || hoveredParent.childIndex === null) {
+    if (
+      (!event.over && !isKeyboardDrag) ||
+      !hoveredParent.parentId ||
+      hoveredParent.childIndex === null ||
+      hoveredParent.rejected
+    ) {
       return;
     }
 
@@ -415,31 +1398,48 @@ export function Tree({ data, onDragEnd }: TreeProps) {
     // Find the target parent node
     // -------------------------------------------------------------------------
 
-    const targetParent = findNodeById(internalRoot, hoveredParent.parentId);
+    const targetParent = nodesById.get(hoveredParent.parentId);
     if (!targetParent) return;
 
     // -------------------------------------------------------------------------
     // Resolve dragged items
     // -------------------------------------------------------------------------
 
-    const draggedNodes = currentDraggingIds
-      .map((id) => selectableItems.find((s) => s.node.item.id === id)?.node)
-      .filter((node): node is InternalTreeNode => node !== undefined);
+    // Topmost only (a folder takes its contents along), and only rows that
+    // are still visible (a folder may have collapsed mid-drag)
+    const draggedNodes = getTopmostNodes(internalRoot, currentDraggingIds).filter(
+      (node) => visibleIndexById.has(node.item.id)
+    );
 
     if (draggedNodes.length === 0) return;
 
     // -------------------------------------------------------------------------
     // Filter out invalid drops
     // -------------------------------------------------------------------------
+    //
+    // Moves only - a copy may go anywhere, even into itself.
+    //
+    // -------------------------------------------------------------------------
 
     const validNodes = draggedNodes.filter(
       (node) =>
-        node.item.id !== targetParent.item.id &&
-        !hasAncestor(targetParent, node.item.id)
+        operation === "copy" ||
+        (node.item.id !== targetParent.item.id &&
+          !hasAncestor(targetParent, node.item.id))
     );
 
     if (validNodes.length === 0) return;
 
+    // While sorted, moving items into the folder they're already in
+    // changes nothing - their position is the comparator's, not ours
+    if (
+      sorted &&
+      operation === "move" &&
+      validNodes.every((node) => node.parent === targetParent)
+    ) {
+      return;
+    }
+
     // -------------------------------------------------------------------------
     // Compute final children array and insert position
     // -------------------------------------------------------------------------
@@ -449,13 +1449,16 @@ export function Tree({ data, onDragEnd }: TreeProps) {
     //   2. Remove any dragged items that are already in this parent
     //   3. Adjust insertAt if removed items were before insert position
     //
+    // Steps 2 and 3 are for moves only: copied items stay where they are.
+    //
     // -------------------------------------------------------------------------
 
     const currentChildren = [...(targetParent.children ?? [])];
     let insertAt = hoveredParent.childIndex;
 
     // Remove dragged items if they're already children of target
-    for (const node of validNodes) {
+    const movedNodes = operation === "move" ? validNodes : [];
+    for (const node of movedNodes) {
       const existingIndex = currentChildren.findIndex(
         (child) => child.item.id === node.item.id
       );
@@ -472,11 +1475,19 @@ export function Tree({ data, onDragEnd }: TreeProps) {
     // Emit callback
     // -------------------------------------------------------------------------
 
+    const verb = operation === "copy" ? "Copied" : "Moved";
+    const position = sorted ? "" : ` at position ${insertAt + 1}`;
+    dropAnnouncementRef.current = `${verb} ${describeItems(
+      validNodes.map((n) => n.item)
+    )} into ${targetParent.item.name}${position}.`;
+
     onDragEnd?.({
       items: validNodes.map((n) => n.item),
       parent: targetParent.item,
       children: currentChildren.map((c) => c.item),
       insertAt,
+      operation,
+      ordering: sorted ? "sorted" : "manual",
     });
   };
 
@@ -486,62 +1497,164 @@ export function Tree({ data, onDragEnd }: TreeProps) {
 
   const handleDragCancel = () => {
     clearDragState();
+    endSpringLoading([]);
+    setIsPointerDragging(false);
+    dnd.setActiveDrag(null);
   };
 
   // ===========================================================================
-  // GET PRIMARY DRAG ITEM FOR OVERLAY
+  // JOIN THE SHARED DRAG CONTEXT
+  // ===========================================================================
+  //
+  // The DndContext belongs to TreeDndProvider (see treeDnd.ts); it forwards
+  // drags of OUR rows to the handlers above, and asks us about drops of
+  // other trees' rows. They're swapped in after every render so the
+  // provider always calls the latest ones.
+  //
   // ===========================================================================
 
-  const primaryDragItem = useMemo(() => {
-    if (draggingIds.length === 0) return null;
-    const found = selectableItems.find(
-      (s) => s.node.item.id === draggingIds[0]
-    );
-    return found?.node.item ?? null;
-  }, [draggingIds, selectableItems]);
+  const participantRef = useRef<TreeDndParticipant | null>(null);
+  useLayoutEffect(() => {
+    participantRef.current = {
+      onDragStart: handleDragStart,
+      onDragMove: handleDragMove,
+      onDragEnd: handleDragEnd,
+      onDragCancel: handleDragCancel,
+      getKeyboardCoordinates: coordinateGetter,
+      announcements,
+      label: label ?? data.name,
+      describeDropTarget: () =>
+        describeDropTarget(nodesById, store.getState().hoveredParent, sorted),
+      isDropRejected: () => store.getState().hoveredParent.rejected,
+      getTransfer: getIncomingTransfer,
+    };
+  });
+
+  useEffect(() => dnd.register(treeId, participantRef), [dnd, treeId]);
 
   // ===========================================================================
   // RENDER
   // ===========================================================================
+  //
+  // The root has no row to ring when items are dropped straight into it
+  // (a sorted tree's catch zones and top-level files), so the tree's own
+  // box gets the ring - red if the drop rules refuse it.
+  //
+  // ===========================================================================
+
+  const rootDropRing = useTreeStore((state) => {
+    const { parentId, dropIntent, rejected } = state.hoveredParent;
+    if (parentId !== internalRoot.item.id || dropIntent !== "inside") return "";
+    return `ring-2 ring-inset ${rejected ? "ring-red-500" : "ring-blue-500"}`;
+  });
 
   return (
-    <DndContext
-      sensors={sensors}
-      onDragStart={handleDragStart}
-      onDragMove={handleDragMove}
-      onDragEnd={handleDragEnd}
-      onDragCancel={handleDragCancel}
-    >
-      <div className="h-screen bg-slate-900 overflow-y-auto p-2">
-        {/* Catch zone at start - makes it easier to drop at the very top */}
-        <CatchZone id="__catch_zone_start__" position="start" />
-
-        {/* Initial drop marker (before first item) */}
-        <TreeDropMarker index={0} />
-
-        {/* Render flattened items with drop markers between them */}
-        {selectableItems.map((item, index) => (
-          <Fragment key={item.node.item.id}>
-            <TreeNode
-              node={item.node}
-              selectableItems={selectableItems}
-            />
-            {/* Drop marker after this item */}
-            <TreeDropMarker index={index + 1} />
-          </Fragment>
-        ))}
-
-        {/* Catch zone at end - makes it easier to drop at the very bottom */}
-        <CatchZone id="__catch_zone_end__" position="end" />
+    <>
+      <div className="h-full flex flex-col bg-slate-900">
+        {onCreate && (
+          <TreeToolbar title={label ?? data.name} onNewItem={handleNewItem} />
+        )}
+
+        <div
+          ref={treeRef}
+          data-tree
+          role="tree"
+          aria-label={label ?? data.name}
+          aria-multiselectable="true"
+          onKeyDown={handleKeyDown}
+          onCut={clipboard.onCut}
+          onCopy={clipboard.onCopy}
+          onPaste={clipboard.onPaste}
+          onDragOver={fileDrop?.onDragOver}
+          onDragLeave={fileDrop?.onDragLeave}
+          onDrop={fileDrop?.onDrop}
+          // Focusable (but not a tab stop) so focus has somewhere to land when
+          // the focused row disappears, e.g. a placeholder after creating
+          tabIndex={-1}
+          className={`flex-1 overflow-y-auto p-2 outline-none ${rootDropRing}`}
+        >
+          {filterResult && selectableItems.length === 0 && (
+            <p className="px-2 py-1 text-sm text-slate-500">No matching items</p>
+          )}
+
+          {/* Catch zone at start - makes it easier to drop at the very top */}
+          <CatchZone
+            id="__catch_zone_start__"
+            position="start"
+            onFileDragOver={fileDrop?.onCatchZoneDragOver}
+          />
+
+          {/* Virtualized list: full height, only nearby rows mounted */}
+          <div ref={listRef} className="relative" style={{ height: totalHeight }}>
+            {rows.map(({ index, key, top }) => {
+              const item = selectableItems[index];
+              const status = statusRows.get(key);
+              return (
+                <div
+                  key={key}
+                  ref={measureRef}
+                  data-key={key}
+                  className="absolute inset-x-0"
+                  style={{
+                    top,
+                    height: rowHeight && rowHeight * (rowLines.get(key) ?? 1),
+                  }}
+                >
+                  {/* Drop marker before this item */}
+                  <TreeDropMarker index={index} />
+                  <TreeNode
+                    node={item.node}
+                    selectableItems={selectableItems}
+                    visibleIndexById={visibleIndexById}
+                    onRename={onRename}
+                    onCreate={onCreate}
+                    onOpenContextMenu={contextMenu ? handleOpenContextMenu : undefined}
+                    validateName={validateName}
+                    highlight={filterResult?.matches.get(item.node.item.id)}
+                    posInSet={item.posInSet}
+                    setSize={item.setSize}
+                    canDrag={canDrag?.(item.node.item) ?? true}
+                    autoExpandDelay={autoExpandDelay}
+                    springLoaded={springLoaded}
+                    onFileDragOver={fileDrop?.onRowDragOver}
+                  />
+                  {status && (
+                    <ChildrenStatusRow
+                      depth={item.node.depth + 1}
+                      load={status}
+                      onRetry={() => retryLoad(item.node.item)}
+                    />
+                  )}
+                </div>
+              );
+            })}
+
+            {/* Drop marker after the last item */}
+            <div className="absolute inset-x-0" style={{ top: totalHeight }}>
+              <TreeDropMarker index={selectableItems.length} />
+            </div>
+          </div>
+
+          {/* Catch zone at end - makes it easier to drop at the very bottom */}
+          <CatchZone
+            id="__catch_zone_end__"
+            position="end"
+            onFileDragOver={fileDrop?.onCatchZoneDragOver}
+          />
+        </div>
       </div>
 
-      {/* Drag overlay - follows cursor */}
-      <DragOverlay dropAnimation={null}>
-        {primaryDragItem && (
-          <GhostNode node={primaryDragItem} count={draggingIds.length} />
-        )}
-      </DragOverlay>
-    </DndContext>
+      {/* Right-click menu (portaled to <body>) */}
+      {menu && (
+        <ContextMenu
+          entries={menu.entries}
+          x={menu.x}
+          y={menu.y}
+          onClose={closeMenu}
+        />
+      )}
+
+    </>
   );
 }
 
@@ -0,0 +1,419 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  MeasuringStrategy,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type Announcements,
+  type DragEndEvent,
+  type DragMoveEvent,
+  type DragStartEvent,
+  type KeyboardCoordinateGetter,
+} from "@dnd-kit/core";
+import type { DragOperation, TreeTransferPayload } from "./types";
+import {
+  ActiveTreeDragContext,
+  isTreeDroppable,
+  TreeDndContext,
+  type ActiveTreeDrag,
+  type TreeDndContextValue,
+  type TreeDndParticipant,
+} from "./treeDnd";
+import { keyboardCodes } from "./keyboardDrag";
+import { describeItems, screenReaderInstructions } from "./announcements";
+import { GhostNode } from "./GhostNode";
+
+// =============================================================================
+// TREE DND PROVIDER
+// =============================================================================
+//
+// Hosts the DndContext shared by the trees and drop zones inside it
+// (see treeDnd.ts for the why). Wrap the part of the app that should
+// take part in tree drags:
+//
+//   <TreeDndProvider>
+//     <Tree ... />
+//     <EditorTabs />
+//   </TreeDndProvider>
+//
+// With onTransfer, rows can also be dropped from one tree into another
+// (see TRANSFERS in treeDnd.ts).
+//
+// =============================================================================
+
+interface TreeDndProviderProps {
+  children: React.ReactNode;
+
+  /**
+   * Callback when items are dropped from one tree into another.
+   * Receives both ends of the transfer - the consumer updates both trees'
+   * data (see transferOutCommand / transferInCommand).
+   * If omitted, trees don't accept each other's items.
+   */
+  onTransfer?: (payload: TreeTransferPayload) => void;
+
+  /**
+   * Whether a transfer moves or copies the items, for all trees or per
+   * pair of tree ids (default: "move").
+   */
+  transferOperation?:
+    | DragOperation
+    | ((sourceTreeId: string, targetTreeId: string) => DragOperation);
+
+  /**
+   * Asked while hovering and again on drop. Return false to refuse the
+   * transfer - no drop marker is shown and nothing is emitted.
+   * If omitted, every transfer the target tree accepts is allowed.
+   */
+  canTransfer?: (payload: TreeTransferPayload) => boolean;
+}
+
+export function TreeDndProvider({
+  children,
+  onTransfer,
+  transferOperation = "move",
+  canTransfer,
+}: TreeDndProviderProps) {
+  // ===========================================================================
+  // PARTICIPANTS
+  // ===========================================================================
+  //
+  // Refs, not state: registering must not re-render the whole app, and
+  // handlers are always read at the moment an event arrives.
+  //
+  // ===========================================================================
+
+  const participantsRef = useRef(
+    new Map<string, React.RefObject<TreeDndParticipant | null>>()
+  );
+
+  // The tree whose row is being dragged. Kept after the drag ends - dnd-kit
+  // asks for the end announcement AFTER onDragEnd.
+  const ownerRef = useRef<TreeDndParticipant | null>(null);
+
+  // State for rendering (overlay, drop zones); the ref for handlers that
+  // run before the state update lands
+  const [activeDrag, setActiveDrag] = useState<ActiveTreeDrag | null>(null);
+  const activeDragRef = useRef<ActiveTreeDrag | null>(null);
+
+  // Latest transfer props, for the stable context value below
+  const transferRef = useRef({ onTransfer, transferOperation, canTransfer });
+  useLayoutEffect(() => {
+    transferRef.current = { onTransfer, transferOperation, canTransfer };
+  });
+
+  // ===========================================================================
+  // COPY OR MOVE
+  // ===========================================================================
+  //
+  // Alt/Option held = copy (see treeDnd.ts). Handlers read the ref; the
+  // state is what the ghost shows - which is also a copy when the drop
+  // would be a transfer that transferOperation makes a copy.
+  //
+  // ===========================================================================
+
+  const copyKeyRef = useRef(false);
+  const [ghostOperation, setGhostOperation] = useState<DragOperation>("move");
+
+  // Whether the tree under the pointer refuses the drop (its drop rules)
+  const [ghostRejected, setGhostRejected] = useState(false);
+
+  const getTransferOperation = useCallback(
+    (sourceTreeId: string, targetTreeId: string): DragOperation => {
+      if (copyKeyRef.current) return "copy";
+
+      const { transferOperation } = transferRef.current;
+      return typeof transferOperation === "function"
+        ? transferOperation(sourceTreeId, targetTreeId)
+        : transferOperation;
+    },
+    []
+  );
+
+  const context = useMemo<TreeDndContextValue>(
+    () => ({
+      register: (treeId, participant) => {
+        participantsRef.current.set(treeId, participant);
+        return () => {
+          if (participantsRef.current.get(treeId) === participant) {
+            participantsRef.current.delete(treeId);
+          }
+        };
+      },
+      setActiveDrag: (drag) => {
+        activeDragRef.current = drag;
+        setActiveDrag(drag);
+      },
+      getDragOperation: () => (copyKeyRef.current ? "copy" : "move"),
+      resolveTransfer: (target) => {
+        const { onTransfer, canTransfer } = transferRef.current;
+        const source = activeDragRef.current;
+        if (!onTransfer || !source || source.treeId === target.treeId) return null;
+
+        const operation = getTransferOperation(source.treeId, target.treeId);
+        const payload: TreeTransferPayload = { operation, source, target };
+        return canTransfer && !canTransfer(payload) ? null : payload;
+      },
+    }),
+    [getTransferOperation]
+  );
+
+  // ===========================================================================
+  // FORWARDING
+  // ===========================================================================
+
+  // The last move, replayed when Alt/Option changes (see below)
+  const lastMoveRef = useRef<DragMoveEvent | null>(null);
+
+  const handleDragStart = (event: DragStartEvent) => {
+    copyKeyRef.current = hasCopyModifier(event.activatorEvent);
+    lastMoveRef.current = null;
+    setGhostOperation(copyKeyRef.current ? "copy" : "move");
+
+    const treeId = event.active.data.current?.treeId;
+    ownerRef.current =
+      typeof treeId === "string"
+        ? (participantsRef.current.get(treeId)?.current ?? null)
+        : null;
+    ownerRef.current?.onDragStart(event);
+  };
+
+  // Every tree, not just the owner: another one may be under the pointer
+  const handleDragMove = useCallback(
+    (event: DragMoveEvent) => {
+      lastMoveRef.current = event;
+      for (const participant of participantsRef.current.values()) {
+        participant.current?.onDragMove(event);
+      }
+
+      const data = event.over?.data.current;
+      const source = activeDragRef.current;
+      const target = isTreeDroppable(data)
+        ? participantsRef.current.get(data.treeId)?.current
+        : null;
+      setGhostRejected(target?.isDropRejected() ?? false);
+      setGhostOperation(
+        source && isTreeDroppable(data) && data.treeId !== source.treeId
+          ? getTransferOperation(source.treeId, data.treeId)
+          : copyKeyRef.current
+            ? "copy"
+            : "move"
+      );
+    },
+    [getTransferOperation]
+  );
+
+  // ---------------------------------------------------------------------------
+  // Alt/Option mid-drag
+  // ---------------------------------------------------------------------------
+  //
+  // Watched on window while a drag is active (keyboard drags included).
+  // A change replays the last move, so every tree re-validates its target
+  // right away - a copy may go where a move may not - instead of waiting
+  // for the pointer to move.
+  //
+  // ---------------------------------------------------------------------------
+
+  const isDragging = activeDrag !== null;
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleModifier = (event: KeyboardEvent | PointerEvent) => {
+      // Windows browsers focus the menu bar when Alt is released
+      if (event instanceof KeyboardEvent && event.key === "Alt") {
+        event.preventDefault();
+      }
+
+      if (event.altKey === copyKeyRef.current) return;
+      copyKeyRef.current = event.altKey;
+
+      if (lastMoveRef.current) {
+        handleDragMove(lastMoveRef.current);
+      } else {
+        setGhostOperation(event.altKey ? "copy" : "move");
+      }
+    };
+
+    window.addEventListener("keydown", handleModifier);
+    window.addEventListener("keyup", handleModifier);
+    window.addEventListener("pointermove", handleModifier);
+
+    return () => {
+      window.removeEventListener("keydown", handleModifier);
+      window.removeEventListener("keyup", handleModifier);
+      window.removeEventListener("pointermove", handleModifier);
+    };
+  }, [isDragging, handleDragMove]);
+
+  // ---------------------------------------------------------------------------
+  // Drops on another tree
+  // ---------------------------------------------------------------------------
+  //
+  // Resolved BEFORE the owner's onDragEnd, while the target tree still holds
+  // its drop target. The owner then sees a drop on a foreign row and only
+  // clears up; the other trees are reset like on cancel.
+  //
+  // Its announcement replaces the owner's "Nothing was moved".
+  //
+  // ---------------------------------------------------------------------------
+
+  const transferAnnouncementRef = useRef<string | null>(null);
+
+  const resetOtherTrees = (owner: TreeDndParticipant | null) => {
+    for (const participant of participantsRef.current.values()) {
+      if (participant.current !== owner) participant.current?.onDragCancel();
+    }
+  };
+
+  const resetOperation = () => {
+    copyKeyRef.current = false;
+    lastMoveRef.current = null;
+    setGhostOperation("move");
+    setGhostRejected(false);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const owner = ownerRef.current;
+    const data = event.over?.data.current;
+    transferAnnouncementRef.current = null;
+
+    if (
+      isTreeDroppable(data) &&
+      !(event.activatorEvent instanceof KeyboardEvent)
+    ) {
+      const target = participantsRef.current.get(data.treeId)?.current;
+      const payload = target && target !== owner ? target.getTransfer() : null;
+
+      if (target && payload) {
+        const { operation, source, target: to } = payload;
+        const verb = operation === "copy" ? "Copied" : "Moved";
+        transferAnnouncementRef.current =
+          `${verb} ${describeItems(source.items)} into ${to.parent.name} ` +
+          `in ${target.label} at position ${to.insertAt + 1}.`;
+        transferRef.current.onTransfer?.(payload);
+      }
+    }
+
+    owner?.onDragEnd(event);
+    resetOtherTrees(owner);
+    resetOperation();
+  };
+
+  const handleDragCancel = () => {
+    ownerRef.current?.onDragCancel();
+    resetOtherTrees(ownerRef.current);
+    resetOperation();
+  };
+
+  // dnd-kit keeps sensor options from the moment the drag started; reading
+  // the owner through the ref always reaches its latest tree
+  const coordinateGetter: KeyboardCoordinateGetter = (event, args) =>
+    ownerRef.current?.getKeyboardCoordinates(event, args);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // Must move 8px before drag activates
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      keyboardCodes,
+      coordinateGetter,
+    })
+  );
+
+  const announcements = useMemo<Announcements>(
+    () => ({
+      onDragStart: (args) => ownerRef.current?.announcements.onDragStart(args),
+      onDragMove: (args) => {
+        // Over another tree: only that tree knows what it would accept
+        const data = args.over?.data.current;
+        const targetTreeId = isTreeDroppable(data) ? data.treeId : null;
+        const target =
+          targetTreeId !== null ? participantsRef.current.get(targetTreeId)?.current : null;
+        const owner = ownerRef.current;
+        const drag = activeDragRef.current;
+
+        if (!target || target === owner || !drag || targetTreeId === null) {
+          return owner?.announcements.onDragMove?.(args);
+        }
+
+        const where = target.describeDropTarget();
+        if (!where) {
+          return `${describeItems(drag.items)} can't be dropped in ${target.label}.`;
+        }
+
+        const verb =
+          getTransferOperation(drag.treeId, targetTreeId) === "copy" ? "Copying" : "Moving";
+        return `${verb} ${describeItems(drag.items)} ${where} in ${target.label}.`;
+      },
+      onDragOver: (args) => ownerRef.current?.announcements.onDragOver(args),
+      onDragEnd: (args) =>
+        transferAnnouncementRef.current ??
+        ownerRef.current?.announcements.onDragEnd(args),
+      onDragCancel: (args) => ownerRef.current?.announcements.onDragCancel(args),
+    }),
+    [getTransferOperation]
+  );
+
+  // ===========================================================================
+  // RENDER
+  // ===========================================================================
+
+  const ghost = activeDrag?.items[0];
+
+  return (
+    <TreeDndContext value={context}>
+      <ActiveTreeDragContext value={activeDrag}>
+        <DndContext
+          sensors={sensors}
+          onDragStart={handleDragStart}
+          onDragMove={handleDragMove}
+          // The hovered row can change WITHOUT the pointer moving (auto scroll
+          // slides rows underneath it) - recompute the target then too
+          onDragOver={handleDragMove}
+          onDragEnd={handleDragEnd}
+          onDragCancel={handleDragCancel}
+          // Rows mount and unmount while scrolling mid-drag; keep their
+          // droppable rects current
+          measuring={{ droppable: { strategy: MeasuringStrategy.Always } }}
+          // Replaced by each tree's useEdgeAutoScroll
+          autoScroll={false}
+          accessibility={{ announcements, screenReaderInstructions }}
+        >
+          {children}
+
+          {/* Drag overlay - follows cursor, even outside the tree */}
+          <DragOverlay dropAnimation={null}>
+            {ghost && (
+              <GhostNode
+                node={ghost}
+                count={activeDrag.items.length}
+                copy={ghostOperation === "copy"}
+                rejected={ghostRejected}
+              />
+            )}
+          </DragOverlay>
+        </DndContext>
+      </ActiveTreeDragContext>
+    </TreeDndContext>
+  );
+}
+
+/** Alt/Option held during the event (pointer and key events both carry it) */
+function hasCopyModifier(event: Event | null): boolean {
+  return (
+    (event instanceof MouseEvent || event instanceof KeyboardEvent) && event.altKey
+  );
+}
@@ -1,4 +1,5 @@
 import { memo } from "react";
+import { Ban } from "lucide-react";
 import { useTreeStore } from "./store";
 
 // =============================================================================
@@ -22,19 +23,19 @@ import { useTreeStore } from "./store";
 //
 // SOLUTION:
 //
-//   Render drop markers BETWEEN items in the document flow:
+//   Render a drop marker at the top of every row's slot:
 //
-//     <TreeDropMarker index={0} />  ← before first item
-//     <TreeNode />
-//     <TreeDropMarker index={1} />  ← between 1st and 2nd item
-//     <TreeNode />
-//     <TreeDropMarker index={2} />  ← between 2nd and 3rd item
+//     <row 0><TreeDropMarker index={0} /><TreeNode /></row>  ← before 1st item
+//     <row 1><TreeDropMarker index={1} /><TreeNode /></row>  ← between 1st/2nd
 //     ...
+//     <TreeDropMarker index={length} />                       ← after the last
 //
 //   Each marker:
 //     - Only renders if hoveredParent.index matches its index
 //     - Indents based on hoveredParent.parentDepth
-//     - Is IN the document flow, so scrolling works automatically
+//     - Lives INSIDE the scrolling content, so scrolling works automatically
+//     - Is absolutely positioned over the gap, so showing it never shifts
+//       the rows (which are laid out at fixed offsets - see useVirtualRows)
 //
 // =============================================================================
 
@@ -115,24 +116,38 @@ export const TreeDropMarker = memo(function TreeDropMarker({
   // ---------------------------------------------------------------------------
   //
   // A simple horizontal line:
-  //   - 2px tall
-  //   - Blue/accent color
-  //   - Left margin based on target depth
+  //   - 2px tall, centered on the boundary above its row
+  //   - Blue/accent color - or red with a "not allowed" sign where the
+  //     drop rules refuse the drop (hoveredParent.rejected)
+  //   - Left offset based on target depth
   //   - Full width from indent to edge
   //
-  // The marker is IN document flow (not position: absolute), so:
-  //   - It pushes content down when shown
+  // Positioned relative to the row's slot (not the viewport), so:
   //   - Scrolling works correctly
-  //   - No z-index fighting
+  //   - Rows don't jump while the marker moves between gaps
+  //   - z-10 keeps it above the neighbouring rows' backgrounds
   //
   // ---------------------------------------------------------------------------
 
+  const { rejected } = hoveredParent;
+
   return (
     <div
-      className="h-[2px] bg-blue-500 pointer-events-none"
-      style={{ marginLeft: indent }}
+      aria-hidden="true"
+      className={`
+        absolute right-0 -top-px z-10 h-[2px] pointer-events-none
+        ${rejected ? "bg-red-500" : "bg-blue-500"}
+      `}
+      style={{ left: indent }}
       // pointer-events-none: don't interfere with drop detection
-    />
+    >
+      {rejected && (
+        <Ban
+          size={12}
+          className="absolute -left-3.5 -top-[5px] text-red-500 bg-slate-900 rounded-full"
+        />
+      )}
+    </div>
   );
 });
 
@@ -1,8 +1,23 @@
 import { memo, useEffect, useRef } from "react";
 import { useDraggable, useDroppable } from "@dnd-kit/core";
 import { File, Folder, FolderOpen, ChevronRight } from "lucide-react";
-import type { InternalTreeNode, SelectableTreeNode } from "./types";
-import { useTreeStore } from "./store";
+import type { TTreeNode } from "../../types";
+import type {
+  CreatePayload,
+  InternalTreeNode,
+  NameValidator,
+  SelectableTreeNode,
+} from "./types";
+import { selectCollapsed, useTreeStore, useTreeStoreApi } from "./store";
+import {
+  getChildIndex,
+  getNameValidationContext,
+  getRangeIds,
+  isUnloaded,
+  NEW_ITEM_ID,
+} from "./utils";
+import { RenameInput } from "./RenameInput";
+import { getDndId } from "./treeDnd";
 
 // =============================================================================
 // TREE NODE COMPONENT
@@ -18,8 +33,8 @@ import { useTreeStore } from "./store";
 //     - No connection to sibling/parent state
 //
 //   AFTER (this implementation):
-//     - Reads collapsed state from global store
-//     - Reads selection state from global store
+//     - Reads collapsed state from the tree's store
+//     - Reads selection state from the tree's store
 //     - Can participate in multi-selection
 //     - Auto-expands folders during drag hover
 //
@@ -28,7 +43,7 @@ import { useTreeStore } from "./store";
 /** Pixels per depth level for indentation */
 const DEPTH_PADDING = 20;
 
-/** Delay before auto-expanding a collapsed folder during drag */
+/** Default delay before auto-expanding a collapsed folder during drag */
 const AUTO_EXPAND_DELAY = 800; // ms
 
 interface TreeNodeProps {
@@ -40,6 +55,58 @@ interface TreeNodeProps {
    * Needed for range selection (shift+click).
    */
   selectableItems: SelectableTreeNode[];
+
+  /** id → index in selectableItems (see indexSelectableItems) */
+  visibleIndexById: Map<string, number>;
+
+  /**
+   * Called when an inline rename is committed with a NEW name.
+   * If omitted, the row can't enter rename mode.
+   */
+  onRename?: (item: TTreeNode, newName: string) => void;
+
+  /**
+   * Called when the "new item" placeholder row is committed.
+   * Only used when this node IS the placeholder.
+   */
+  onCreate?: (payload: CreatePayload) => void;
+
+  /**
+   * Called on right-click. Returns true if a custom menu was opened
+   * (so we suppress the browser's own menu).
+   */
+  onOpenContextMenu?: (
+    node: InternalTreeNode,
+    position: { x: number; y: number },
+    row: HTMLElement | null
+  ) => boolean;
+
+  /** Checks a proposed name before it is committed */
+  validateName: NameValidator;
+
+  /** Indices of name characters matched by the tree's filter, to highlight */
+  highlight?: number[];
+
+  /** 1-based position among its siblings as shown (see SelectableTreeNode) */
+  posInSet: number;
+
+  /** How many siblings are shown, this row included */
+  setSize: number;
+
+  /** Whether the row can be picked up (Tree's canDrag rule). Default: true */
+  canDrag?: boolean;
+
+  /** ms of hovering before a collapsed folder opens; false = never */
+  autoExpandDelay?: number | false;
+
+  /** Open it for the current drag only (springOpen) */
+  springLoaded?: boolean;
+
+  /**
+   * Native dragover of files from the OS (see useExternalFileDrop.ts).
+   * If omitted, such drags pass the row by.
+   */
+  onFileDragOver?: (node: InternalTreeNode, e: React.DragEvent) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -49,10 +116,25 @@ interface TreeNodeProps {
 export const TreeNode = memo(function TreeNode({
   node,
   selectableItems,
+  visibleIndexById,
+  onRename,
+  onCreate,
+  onOpenContextMenu,
+  validateName,
+  highlight,
+  posInSet,
+  setSize,
+  canDrag = true,
+  autoExpandDelay = AUTO_EXPAND_DELAY,
+  springLoaded = false,
+  onFileDragOver,
 }: TreeNodeProps) {
   const { item } = node;
   const isDirectory = item.type === "directory";
 
+  // The temporary row shown while naming a new file/folder
+  const isPlaceholder = item.id === NEW_ITEM_ID;
+
   // ===========================================================================
   // STORE SUBSCRIPTIONS
   // ===========================================================================
@@ -64,18 +146,17 @@ export const TreeNode = memo(function TreeNode({
 
   // Is THIS node collapsed? (only relevant for directories)
   const isCollapsed = useTreeStore(
-    (state) => state.collapsed[item.id] ?? false
+    (state) => selectCollapsed(state)[item.id] ?? false
   );
 
   // Is THIS node selected?
-  const isSelected = useTreeStore((state) =>
-    state.selectedIds.includes(item.id)
-  );
+  const isSelected = useTreeStore((state) => state.selectedSet.has(item.id));
 
   // Is THIS node being dragged?
-  const isDragging = useTreeStore((state) =>
-    state.draggingIds.includes(item.id)
-  );
+  const isDragging = useTreeStore((state) => state.draggingSet.has(item.id));
+
+  // Is THIS node cut (Cmd/Ctrl+X) and waiting to be pasted?
+  const isCut = useTreeStore((state) => state.cutSet.has(item.id));
 
   // Is THIS node the current drop target?
   // (Used for auto-expand and visual feedback)
@@ -91,14 +172,30 @@ export const TreeNode = memo(function TreeNode({
       state.hoveredParent.dropIntent === "inside"
   );
 
+  // ...and would the drop rules refuse it? (red ring instead of blue)
+  const isDropRejected = useTreeStore(
+    (state) => state.hoveredParent.parentId === item.id && state.hoveredParent.rejected
+  );
+
+  // Does THIS node hold keyboard focus? (the roving tab stop)
+  const isFocused = useTreeStore((state) => state.focusedId === item.id);
+
+  // Is THIS node being renamed?
+  const isEditing = useTreeStore((state) => state.editingId === item.id);
+
   // Get the anchor ID for range selection
   const anchorId = useTreeStore((state) => state.anchorId);
 
   // Get store actions
+  const store = useTreeStoreApi();
   const setSelectedIds = useTreeStore((state) => state.setSelectedIds);
   const setAnchorId = useTreeStore((state) => state.setAnchorId);
+  const setFocusedId = useTreeStore((state) => state.setFocusedId);
+  const setEditingId = useTreeStore((state) => state.setEditingId);
+  const finishCreating = useTreeStore((state) => state.finishCreating);
   const toggleCollapsed = useTreeStore((state) => state.toggleCollapsed);
   const setCollapsed = useTreeStore((state) => state.setCollapsed);
+  const springOpen = useTreeStore((state) => state.springOpen);
 
   // ===========================================================================
   // DND-KIT HOOKS
@@ -107,26 +204,42 @@ export const TreeNode = memo(function TreeNode({
   // useDraggable: Makes this node draggable
   // useDroppable: Makes this node a drop target
   //
-  // We use the same ID for both, which is the item's unique ID.
+  // We use the same ID for both: the item's ID, prefixed with the treeId
+  // (see getDndId - another tree may hold the same item ID). Both carry the
+  // treeId and itemId, so the shared drag context knows which tree a
+  // dragged row (or a hovered one) belongs to.
   //
   // ===========================================================================
 
+  const treeId = useTreeStore((state) => state.treeId);
+
   const {
     attributes,
     listeners,
     setNodeRef: setDraggableRef,
     isDragging: isDndKitDragging,
   } = useDraggable({
-    id: item.id,
+    id: getDndId(treeId, item.id),
     data: {
+      treeId,
+      itemId: item.id,
       type: item.type,
       depth: node.depth,
     },
+    // dnd-kit defaults to role="button" - we're a row in a tree
+    attributes: {
+      role: "treeitem",
+    },
+    // No dragging a row out from under its own rename input - or one the
+    // consumer's rules pin in place
+    disabled: isEditing || !canDrag,
   });
 
   const { setNodeRef: setDroppableRef, isOver } = useDroppable({
-    id: item.id,
+    id: getDndId(treeId, item.id),
     data: {
+      treeId,
+      itemId: item.id,
       type: item.type,
       depth: node.depth,
       collapsed: isCollapsed,
@@ -143,6 +256,31 @@ export const TreeNode = memo(function TreeNode({
     }
   }, [setDraggableRef, setDroppableRef]);
 
+  // ===========================================================================
+  // ROVING FOCUS
+  // ===========================================================================
+  //
+  // When keyboard navigation moves focusedId to this node, move DOM focus
+  // here too (which also scrolls the row into view).
+  //
+  // We only do this if focus is ALREADY inside the tree - otherwise simply
+  // loading the page (which sets an initial focusedId) would steal focus
+  // from whatever the user was doing elsewhere.
+  //
+  // ===========================================================================
+
+  useEffect(() => {
+    const el = nodeRef.current;
+    if (!isFocused || !el) return;
+
+    const treeEl = el.closest("[data-tree]");
+    const focusIsInTree = treeEl?.contains(document.activeElement) ?? false;
+
+    if (focusIsInTree && document.activeElement !== el) {
+      el.focus();
+    }
+  }, [isFocused]);
+
   // ===========================================================================
   // AUTO-EXPAND ON HOVER
   // ===========================================================================
@@ -152,27 +290,38 @@ export const TreeNode = memo(function TreeNode({
   //
   // Logic:
   //   1. Start timer when: folder is collapsed + being hovered as drop target
-  //   2. After 800ms: expand the folder
+  //   2. After autoExpandDelay (800ms by default): expand the folder
   //   3. Clear timer if: hover ends, drop happens, or folder expands
   //
+  // SPRING-LOADED: the folder only opens for this drag (springOpen, see
+  // springCollapsed in store.ts) and closes again on drop or cancel -
+  // unless the items went into it.
+  //
+  // A lazy folder that hasn't loaded yet counts as having children:
+  // expanding it is what loads them (see useLazyChildren.ts).
+  //
   // ===========================================================================
 
   const autoExpandTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
-    // Only auto-expand collapsed directories with children
+    // Only auto-expand collapsed directories with (possibly unloaded) children
     const shouldAutoExpand =
+      autoExpandDelay !== false &&
       isDirectory &&
       isCollapsed &&
       isDropTarget &&
-      node.children &&
-      node.children.length > 0;
+      ((node.children && node.children.length > 0) || isUnloaded(item));
 
     if (shouldAutoExpand) {
       // Start countdown to expand
       autoExpandTimeoutRef.current = setTimeout(() => {
-        setCollapsed(item.id, false);
-      }, AUTO_EXPAND_DELAY);
+        if (springLoaded) {
+          springOpen(item.id);
+        } else {
+          setCollapsed(item.id, false);
+        }
+      }, autoExpandDelay);
     }
 
     // Cleanup: clear timeout when conditions change
@@ -182,7 +331,17 @@ export const TreeNode = memo(function TreeNode({
         autoExpandTimeoutRef.current = null;
       }
     };
-  }, [isDirectory, isCollapsed, isDropTarget, node.children, item.id, setCollapsed]);
+  }, [
+    autoExpandDelay,
+    springLoaded,
+    isDirectory,
+    isCollapsed,
+    isDropTarget,
+    node.children,
+    item,
+    setCollapsed,
+    springOpen,
+  ]);
 
   // ===========================================================================
   // CLICK HANDLER
@@ -198,6 +357,9 @@ export const TreeNode = memo(function TreeNode({
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
 
+    // Whatever kind of click it is, the clicked row becomes the focused row
+    setFocusedId(item.id);
+
     // -------------------------------------------------------------------------
     // SHIFT+CLICK: Range Selection
     // -------------------------------------------------------------------------
@@ -208,29 +370,19 @@ export const TreeNode = memo(function TreeNode({
     //   1. Click "FileA" → anchor = FileA, selection = [FileA]
     //   2. Shift+click "FileD" → selection = [FileA, FileB, FileC, FileD]
     //
-    // We use the flat selectableItems array to find the range.
+    // We use the flat selectableItems array (and its index) to find the range.
     //
     // -------------------------------------------------------------------------
 
     if (e.shiftKey && anchorId) {
-      // Find indices in the flat array
-      const anchorIndex = selectableItems.findIndex(
-        (s) => s.node.item.id === anchorId
-      );
-      const clickIndex = selectableItems.findIndex(
-        (s) => s.node.item.id === item.id
+      const rangeIds = getRangeIds(
+        selectableItems,
+        visibleIndexById,
+        anchorId,
+        item.id
       );
 
-      if (anchorIndex !== -1 && clickIndex !== -1) {
-        // Determine range bounds (anchor might be before or after click)
-        const start = Math.min(anchorIndex, clickIndex);
-        const end = Math.max(anchorIndex, clickIndex);
-
-        // Extract IDs from the range
-        const rangeIds = selectableItems
-          .slice(start, end + 1)
-          .map((s) => s.node.item.id);
-
+      if (rangeIds) {
         setSelectedIds(rangeIds);
         // Don't change anchor - keep it for potential further shift-clicks
         return;
@@ -251,9 +403,9 @@ export const TreeNode = memo(function TreeNode({
     // -------------------------------------------------------------------------
 
     if (e.metaKey || e.ctrlKey) {
-      const currentIds = useTreeStore.getState().selectedIds;
+      const { selectedIds: currentIds, selectedSet } = store.getState();
 
-      if (currentIds.includes(item.id)) {
+      if (selectedSet.has(item.id)) {
         // Already selected → remove it
         setSelectedIds(currentIds.filter((id) => id !== item.id));
       } else {
@@ -293,6 +445,102 @@ export const TreeNode = memo(function TreeNode({
     }
   };
 
+  // ===========================================================================
+  // RIGHT-CLICK
+  // ===========================================================================
+  //
+  // Tree decides what the menu contains (and updates selection first);
+  // we only suppress the native menu when Tree actually opened one.
+  //
+  // ===========================================================================
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+    if (!onOpenContextMenu || isEditing) return;
+
+    const opened = onOpenContextMenu(
+      node,
+      { x: e.clientX, y: e.clientY },
+      nodeRef.current
+    );
+    if (opened) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  };
+
+  // ===========================================================================
+  // INLINE RENAME
+  // ===========================================================================
+  //
+  // Enter rename mode with a double-click here, or F2/Enter from the keyboard
+  // (see useTreeKeyboard.ts). The name span is then swapped for RenameInput.
+  //
+  // On commit we only emit onRename if the name actually changed - the tree
+  // doesn't own the data, so the consumer applies the rename.
+  //
+  // After Enter/Escape, focus goes back to the row so keyboard users can
+  // carry on navigating. After a blur we leave focus wherever it went.
+  //
+  // ===========================================================================
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onRename) {
+      setEditingId(item.id);
+    }
+  };
+
+  const validate = (name: string) =>
+    validateName(name, getNameValidationContext(node));
+
+  const finishEditing = () => {
+    const hadFocus = nodeRef.current?.contains(document.activeElement) ?? false;
+
+    if (isPlaceholder) {
+      // This row is about to disappear. Park focus on the tree itself so
+      // the roving-focus effect can hand it to the row we return to.
+      if (hadFocus) {
+        nodeRef.current?.closest<HTMLElement>("[data-tree]")?.focus();
+      }
+      finishCreating();
+      return;
+    }
+
+    setEditingId(null);
+    if (hadFocus) {
+      nodeRef.current?.focus();
+    }
+  };
+
+  const handleRenameCommit = (name: string) => {
+    finishEditing();
+
+    // -------------------------------------------------------------------------
+    // Placeholder: this is a CREATE, not a rename
+    // -------------------------------------------------------------------------
+    //
+    // The placeholder sits at exactly the position the new item should take,
+    // so its parent and child index ARE the create target.
+    //
+    // -------------------------------------------------------------------------
+
+    if (isPlaceholder) {
+      if (node.parent) {
+        onCreate?.({
+          parent: node.parent.item,
+          insertAt: getChildIndex(node),
+          type: item.type,
+          name,
+        });
+      }
+      return;
+    }
+
+    if (name !== item.name) {
+      onRename?.(item, name);
+    }
+  };
+
   // ===========================================================================
   // RENDER
   // ===========================================================================
@@ -303,18 +551,54 @@ export const TreeNode = memo(function TreeNode({
   // Determine which icon to show
   const Icon = isDirectory ? (isCollapsed ? Folder : FolderOpen) : File;
 
+  // ---------------------------------------------------------------------------
+  // ARIA TREE SEMANTICS
+  // ---------------------------------------------------------------------------
+  //
+  // We render FLAT (no nested role="group" elements), so screen readers
+  // can't infer structure from the DOM. We spell it out instead:
+  //   - aria-level:    nesting depth (1 = top-level)
+  //   - aria-setsize:  how many siblings in this folder are shown (the
+  //                    filter may hide some)
+  //   - aria-posinset: 1-based position among those siblings (as shown -
+  //                    a sortMode reorders them)
+  //   - aria-expanded: folders only (files must NOT have it)
+  //
+  // ---------------------------------------------------------------------------
+
+  // Dropping INSIDE this folder: blue ring - red if the drop rules refuse it
+  const dropRing =
+    isDropInside && isDirectory
+      ? `ring-2 ring-inset ${isDropRejected ? "ring-red-500" : "ring-blue-500"}`
+      : "";
+
   return (
     <div
       ref={nodeRef}
       {...attributes}
       {...listeners}
+      // Roving tabindex: only the focused row is reachable with Tab
+      tabIndex={isFocused ? 0 : -1}
+      // "draggable" would replace the spoken "tree item" role
+      aria-roledescription={undefined}
+      // Meant for buttons - a treeitem reports aria-selected instead
+      aria-pressed={undefined}
+      aria-level={node.depth}
+      aria-setsize={setSize}
+      aria-posinset={posInSet}
+      aria-expanded={isDirectory ? !isCollapsed : undefined}
+      aria-selected={isSelected}
       onClick={handleClick}
+      onDoubleClick={handleDoubleClick}
+      onContextMenu={handleContextMenu}
+      onDragOver={onFileDragOver && ((e) => onFileDragOver(node, e))}
       className={`
-        tree-item flex items-center gap-1 py-1 px-2 cursor-pointer select-none
+        tree-item relative flex items-center gap-1 py-1 px-2 cursor-pointer select-none
         rounded-sm transition-colors
         ${isSelected ? "bg-blue-500/20" : "hover:bg-slate-700/50"}
-        ${isDragging ? "opacity-50" : ""}
-        ${isDropInside && isDirectory ? "ring-2 ring-blue-500 ring-inset" : ""}
+        ${isDragging || isCut ? "opacity-50" : ""}
+        ${dropRing}
+        outline-none focus-visible:ring-1 focus-visible:ring-slate-400 focus-visible:ring-inset
       `}
       style={{ paddingLeft: indent }}
     >
@@ -322,6 +606,8 @@ export const TreeNode = memo(function TreeNode({
       {isDirectory ? (
         <button
           onClick={handleChevronClick}
+          // The row is the tab stop, not the chevron (use ArrowLeft/Right)
+          tabIndex={-1}
           className="p-0.5 hover:bg-slate-600 rounded transition-transform"
           style={{
             transform: isCollapsed ? "rotate(0deg)" : "rotate(90deg)",
@@ -340,12 +626,62 @@ export const TreeNode = memo(function TreeNode({
         className={isDirectory ? "text-amber-400" : "text-slate-400"}
       />
 
-      {/* Item name */}
-      <span className="text-slate-200 truncate">{item.name}</span>
+      {/* Item name (or the rename field while editing) */}
+      {isEditing ? (
+        <RenameInput
+          initialName={item.name}
+          validate={validate}
+          onCommit={handleRenameCommit}
+          onCancel={finishEditing}
+        />
+      ) : (
+        <span className="text-slate-200 truncate">
+          {highlight && highlight.length > 0 ? (
+            <HighlightedName name={item.name} indices={highlight} />
+          ) : (
+            item.name
+          )}
+        </span>
+      )}
     </div>
   );
 });
 
+// =============================================================================
+// HIGHLIGHTED NAME
+// =============================================================================
+//
+// Wraps each run of matched characters in a <mark>:
+//
+//   "refunds", [2, 3, 4]  →  re<mark>fun</mark>ds
+//
+// =============================================================================
+
+function HighlightedName({ name, indices }: { name: string; indices: number[] }) {
+  const matched = new Set(indices);
+  const runs: { text: string; isMatch: boolean }[] = [];
+
+  for (let i = 0; i < name.length; i++) {
+    const isMatch = matched.has(i);
+    const last = runs[runs.length - 1];
+    if (last && last.isMatch === isMatch) {
+      last.text += name[i];
+    } else {
+      runs.push({ text: name[i], isMatch });
+    }
+  }
+
+  return runs.map((run, i) =>
+    run.isMatch ? (
+      <mark key={i} className="bg-amber-400/30 text-amber-200 rounded-sm">
+        {run.text}
+      </mark>
+    ) : (
+      run.text
+    )
+  );
+}
+
 // =============================================================================
 // WHY MEMO?
 // =============================================================================
@@ -0,0 +1,54 @@
+import { FilePlus, FolderPlus } from "lucide-react";
+import type { TreeNodeType } from "../../types";
+
+// =============================================================================
+// TREE TOOLBAR
+// =============================================================================
+//
+// A thin header above the tree with "New file" / "New folder" actions.
+//
+// The buttons don't create anything themselves - they ask Tree to show a
+// placeholder row (see PendingCreate in types.ts). Tree decides WHERE,
+// based on the focused item, and emits onCreate once a name is entered.
+//
+// Only rendered when the consumer passes `onCreate`.
+//
+// =============================================================================
+
+interface TreeToolbarProps {
+  /** Title shown on the left (usually the root's name) */
+  title: string;
+
+  /** Start creating a new item of the given type */
+  onNewItem: (type: TreeNodeType) => void;
+}
+
+export function TreeToolbar({ title, onNewItem }: TreeToolbarProps) {
+  return (
+    <div className="flex items-center gap-1 px-3 py-1 border-b border-slate-700">
+      <span className="flex-1 text-xs font-medium uppercase text-slate-400 truncate">
+        {title}
+      </span>
+
+      <button
+        type="button"
+        onClick={() => onNewItem("file")}
+        title="New file"
+        aria-label="New file"
+        className="p-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-700"
+      >
+        <FilePlus size={16} />
+      </button>
+
+      <button
+        type="button"
+        onClick={() => onNewItem("directory")}
+        title="New folder"
+        aria-label="New folder"
+        className="p-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-700"
+      >
+        <FolderPlus size={16} />
+      </button>
+    </div>
+  );
+}
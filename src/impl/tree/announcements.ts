@@ -0,0 +1,82 @@
+import type { TTreeNode } from "../../types";
+import type { HoveredParent, InternalTreeNode } from "./types";
+
+// =============================================================================
+// SCREEN READER ANNOUNCEMENTS
+// =============================================================================
+//
+// dnd-kit ships a live region that reads out drag events, but its default
+// messages only know about dnd-kit IDs:
+//
+//   "Draggable item 5de55936-... was moved over droppable area 7c1456dc-..."
+//
+// That's useless for a tree. What the user actually needs to hear is the
+// STRUCTURAL drop target we already compute in handleDragMove:
+//
+//   "Moving 3 items into refunds at position 2"
+//
+// These helpers turn store state (draggingIds + hoveredParent) into
+// sentences. Tree.tsx wires them into DndContext's `accessibility` prop.
+//
+// =============================================================================
+
+/** Instructions read when a tree item first receives focus */
+export const screenReaderInstructions = {
+  draggable: `
+    Use the up and down arrow keys to move between items.
+    Hold shift to extend the selection.
+    Use the right arrow key to expand a folder and the left arrow key to collapse it.
+    To move the selected items, press space to pick them up,
+    use the up and down arrow keys to choose where they go,
+    then press enter to drop them or escape to cancel.
+  `,
+};
+
+// -----------------------------------------------------------------------------
+// DESCRIBE WHAT'S BEING DRAGGED
+// -----------------------------------------------------------------------------
+//
+//   1 item  → "refunds"
+//   3 items → "3 items"
+//
+// -----------------------------------------------------------------------------
+
+export function describeItems(items: TTreeNode[]): string {
+  if (items.length === 1) {
+    return items[0].name;
+  }
+  return `${items.length} items`;
+}
+
+// -----------------------------------------------------------------------------
+// DESCRIBE WHERE THEY'D LAND
+// -----------------------------------------------------------------------------
+//
+// Uses the structural drop target, not the pointer position:
+//   - parentId   → folder name ("into refunds")
+//   - childIndex → 1-based position ("at position 2") - left out while
+//     the tree is sorted, where the comparator decides
+//
+// Returns null if there is no valid target (or the drop rules reject it).
+//
+// -----------------------------------------------------------------------------
+
+export function describeDropTarget(
+  nodesById: Map<string, InternalTreeNode>,
+  hoveredParent: HoveredParent,
+  sorted = false
+): string | null {
+  if (
+    !hoveredParent.parentId ||
+    hoveredParent.childIndex === null ||
+    hoveredParent.rejected
+  ) {
+    return null;
+  }
+
+  const parent = nodesById.get(hoveredParent.parentId);
+  if (!parent) return null;
+
+  if (sorted) return `into ${parent.item.name}`;
+  return `into ${parent.item.name} at position ${hoveredParent.childIndex + 1}`;
+}
@@ -0,0 +1,114 @@
+import type { TTreeNode } from "../../types";
+import type { DragOperation, TreeClipboard } from "./types";
+
+// =============================================================================
+// SYSTEM CLIPBOARD FORMAT
+// =============================================================================
+//
+// A cut or copy also goes onto the SYSTEM clipboard as JSON, so the items
+// can be pasted into another tab running a tree (or into a text editor):
+//
+//   {
+//     "format": "tree-items",
+//     "version": 1,
+//     "key": "5f0c…",            ← matches TreeClipboard.key
+//     "operation": "copy",
+//     "items": [{ "id": "…", "name": "refunds", "type": "directory", … }]
+//   }
+//
+// It's written under two types: TREE_ITEMS_TYPE, which only a tree reads,
+// and text/plain, which survives browsers that drop custom types.
+//
+// Reading accepts either, but only if the JSON really is this format with
+// well-formed nodes - pasting arbitrary text into a tree does nothing.
+//
+// =============================================================================
+
+export const TREE_ITEMS_TYPE = "application/x-tree-items+json";
+
+const FORMAT = "tree-items";
+
+/** Bumped whenever the JSON changes shape; other versions are ignored */
+const VERSION = 1;
+
+export function serializeClipboard({
+  key,
+  operation,
+  items,
+}: TreeClipboard): string {
+  return JSON.stringify({
+    format: FORMAT,
+    version: VERSION,
+    key,
+    operation,
+    items,
+  });
+}
+
+/** Put the clipboard on a copy/cut event's DataTransfer */
+export function writeClipboardData(
+  data: DataTransfer,
+  clipboard: TreeClipboard
+): void {
+  const json = serializeClipboard(clipboard);
+  data.setData(TREE_ITEMS_TYPE, json);
+  data.setData("text/plain", json);
+}
+
+/** The tree items on a paste event's DataTransfer, or null if there are none */
+export function readClipboardData(data: DataTransfer): TreeClipboard | null {
+  for (const type of [TREE_ITEMS_TYPE, "text/plain"]) {
+    const clipboard = parseClipboard(data.getData(type));
+    if (clipboard) return clipboard;
+  }
+  return null;
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+function parseClipboard(json: string): TreeClipboard | null {
+  if (!json) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== "object" || parsed === null) return null;
+
+  const value = parsed as Record<string, unknown>;
+  if (
+    value.format !== FORMAT ||
+    value.version !== VERSION ||
+    typeof value.key !== "string" ||
+    !isOperation(value.operation) ||
+    !Array.isArray(value.items) ||
+    value.items.length === 0 ||
+    !value.items.every(isTreeNode)
+  ) {
+    return null;
+  }
+
+  return { key: value.key, operation: value.operation, items: value.items };
+}
+
+function isOperation(value: unknown): value is DragOperation {
+  return value === "move" || value === "copy";
+}
+
+function isTreeNode(value: unknown): value is TTreeNode {
+  if (typeof value !== "object" || value === null) return false;
+
+  const node = value as Record<string, unknown>;
+  return (
+    typeof node.id === "string" &&
+    typeof node.name === "string" &&
+    (node.type === "file" || node.type === "directory") &&
+    (node.children === undefined ||
+      (Array.isArray(node.children) && node.children.every(isTreeNode)))
+  );
+}
@@ -0,0 +1,243 @@
+import type { TTreeNode } from "../../types";
+import type {
+  CreatePayload,
+  DeletePayload,
+  DragEndPayload,
+  DroppedEntry,
+  ExternalFilesDropPayload,
+  TreeCommand,
+  TreeTransferPayload,
+} from "./types";
+import {
+  copyWithNewIds,
+  insertNode,
+  insertNodes,
+  moveNodes,
+  removeNodes,
+  renameNode,
+} from "./treeOps";
+import { getCopyName } from "./utils";
+
+// =============================================================================
+// TREE COMMANDS
+// =============================================================================
+//
+// One constructor per kind of change. Each returns a TreeCommand whose
+// `apply` turns the old tree into the new one:
+//
+//   const command = moveCommand(payload);
+//   const next = command.apply(tree);   // tree itself is left untouched
+//
+// Commands don't know how to UNDO themselves - useTreeHistory keeps the
+// tree from before the command instead. That keeps every command a plain
+// "old tree in, new tree out" function, and undo can never drift out of
+// sync with what apply actually did. Keeping old trees around is cheap
+// because the operations in treeOps.ts share unchanged subtrees.
+//
+// =============================================================================
+
+// =============================================================================
+// MOVE
+// =============================================================================
+//
+// Built straight from Tree's DragEndPayload (see moveNodes).
+//
+// Repeated moves of the same items coalesce, so nudging a selection down
+// five rows with the keyboard is undone with a single Cmd+Z.
+//
+// =============================================================================
+
+export function moveCommand(payload: DragEndPayload): TreeCommand {
+  const { items } = payload;
+  const ids = items.map((item) => item.id);
+
+  return {
+    label: items.length === 1 ? `Move ${items[0].name}` : `Move ${items.length} items`,
+    coalesceKey: `move:${[...ids].sort().join(",")}`,
+    apply: (tree) => moveNodes(tree, payload),
+  };
+}
+
+// =============================================================================
+// COPY
+// =============================================================================
+//
+// For a DragEndPayload with operation "copy" (Alt/Option held on drop):
+// deep copies of the items go in at the target, the originals stay.
+// Names that clash with the target folder's children are numbered, like
+// a pasted copy (see getCopyName) - a copy into the items' own folder
+// would otherwise make duplicate siblings.
+//
+// The fresh ids are picked ONCE, when the command is built (like
+// createCommand's), so redo brings back the same nodes.
+//
+// =============================================================================
+
+export function copyCommand({
+  items,
+  parent,
+  children,
+  insertAt,
+}: DragEndPayload): TreeCommand {
+  const siblings = [...children];
+  const copies = items.map((item) => {
+    const copy = copyWithNewIds({ ...item, name: getCopyName(item.name, siblings) });
+    siblings.push(copy);
+    return copy;
+  });
+
+  return {
+    label: items.length === 1 ? `Copy ${items[0].name}` : `Copy ${items.length} items`,
+    coalesceKey: null,
+    apply: (tree) => insertNodes(tree, parent.id, insertAt, copies),
+  };
+}
+
+// =============================================================================
+// RENAME
+// =============================================================================
+
+export function renameCommand(item: TTreeNode, name: string): TreeCommand {
+  return {
+    label: `Rename ${item.name}`,
+    coalesceKey: `rename:${item.id}`,
+    apply: (tree) => renameNode(tree, item.id, name),
+  };
+}
+
+// =============================================================================
+// CREATE
+// =============================================================================
+//
+// The id is picked ONCE, when the command is built, so the node keeps the
+// same id if the step is undone and redone.
+//
+// =============================================================================
+
+export function createCommand(
+  { parent, insertAt, type, name }: CreatePayload,
+  id: string = crypto.randomUUID()
+): TreeCommand {
+  return {
+    label: `Create ${name}`,
+    coalesceKey: null,
+    apply: (tree) =>
+      insertNode(tree, parent.id, insertAt, {
+        id,
+        name,
+        type,
+        ...(type === "directory" ? { children: [] } : {}),
+      }),
+  };
+}
+
+// =============================================================================
+// IMPORT FILES
+// =============================================================================
+//
+// For an ExternalFilesDropPayload: a node per dropped file and folder,
+// with the folders' contents inside. Names that clash with the target
+// folder's children are numbered, like a pasted copy (see getCopyName).
+//
+// Only the names come in - the File objects themselves are left to the
+// consumer (an upload, say). Ids are picked once, like createCommand's.
+//
+// =============================================================================
+
+export function importFilesCommand({
+  files,
+  parent,
+  insertAt,
+}: ExternalFilesDropPayload): TreeCommand {
+  const siblings = [...(parent.children ?? [])];
+  const nodes = files.map((entry) => {
+    const node = toTreeNode({ ...entry, name: getCopyName(entry.name, siblings) });
+    siblings.push(node);
+    return node;
+  });
+
+  return {
+    label: files.length === 1 ? `Import ${files[0].name}` : `Import ${files.length} items`,
+    coalesceKey: null,
+    apply: (tree) => insertNodes(tree, parent.id, insertAt, nodes),
+  };
+}
+
+function toTreeNode(entry: DroppedEntry): TTreeNode {
+  const id = crypto.randomUUID();
+  if (entry.type === "file") {
+    return { id, name: entry.name, type: "file" };
+  }
+  return {
+    id,
+    name: entry.name,
+    type: "directory",
+    children: entry.children.map(toTreeNode),
+  };
+}
+
+// =============================================================================
+// DELETE
+// =============================================================================
+//
+// Removing a folder takes its contents with it (see removeNodes), so the
+// payload's items are all we need.
+//
+// =============================================================================
+
+export function deleteCommand({ items }: DeletePayload): TreeCommand {
+  return {
+    label: items.length === 1 ? `Delete ${items[0].name}` : `Delete ${items.length} items`,
+    coalesceKey: null,
+    apply: (tree) => removeNodes(tree, items.map((item) => item.id)),
+  };
+}
+
+// =============================================================================
+// TRANSFER (BETWEEN TREES)
+// =============================================================================
+//
+// A TreeTransferPayload changes TWO trees, and each tree has its own
+// history - so it becomes one command per tree:
+//
+//   onTransfer={(payload) => {
+//     if (payload.operation === "move") {
+//       histories[payload.source.treeId].execute(transferOutCommand(payload));
+//     }
+//     histories[payload.target.treeId].execute(transferInCommand(payload));
+//   }}
+//
+// Undoing one side doesn't undo the other; each tree's Cmd+Z only ever
+// touches that tree.
+//
+// Copies get fresh ids (picked once, like createCommand's) so they can't
+// clash with ids already in the target tree. Moved items keep theirs.
+//
+// =============================================================================
+
+export function transferOutCommand({ source }: TreeTransferPayload): TreeCommand {
+  const { items } = source;
+
+  return {
+    label: items.length === 1 ? `Move out ${items[0].name}` : `Move out ${items.length} items`,
+    coalesceKey: null,
+    apply: (tree) => removeNodes(tree, items.map((item) => item.id)),
+  };
+}
+
+export function transferInCommand({
+  operation,
+  source,
+  target,
+}: TreeTransferPayload): TreeCommand {
+  const { items } = source;
+  const nodes =
+    operation === "copy" ? items.map((item) => copyWithNewIds(item)) : items;
+  const verb = operation === "copy" ? "Copy in" : "Move in";
+
+  return {
+    label: items.length === 1 ? `${verb} ${items[0].name}` : `${verb} ${items.length} items`,
+    coalesceKey: null,
+    apply: (tree) => insertNodes(tree, target.parent.id, target.insertAt, nodes),
+  };
+}
@@ -0,0 +1,104 @@
+import type { DroppedEntry } from "./types";
+
+// =============================================================================
+// DROPPED FILES
+// =============================================================================
+//
+// Turns a native drop's DataTransfer into DroppedEntry trees:
+//
+//   drop of [notes.md, assets/]
+//     → [
+//         { type: "file", name: "notes.md", file },
+//         { type: "directory", name: "assets", children: [...] },
+//       ]
+//
+// WHY ENTRIES, NOT dataTransfer.files?
+//   `files` lists what was dropped, but a folder shows up there as an
+//   unreadable zero-byte "file". The File System Entries API
+//   (webkitGetAsEntry - supported everywhere despite the prefix) can walk
+//   into it.
+//
+// TIMING
+//   The DataTransfer is emptied as soon as the drop event returns, so the
+//   entries are taken synchronously; only reading them is async.
+//
+// Anything that can't be read (permissions, a file deleted mid-drop) is
+// left out rather than failing the whole drop.
+//
+// =============================================================================
+
+export function readDroppedEntries(data: DataTransfer): Promise<DroppedEntry[]> {
+  const entries = Array.from(data.items, (item) =>
+    item.kind === "file" ? item.webkitGetAsEntry() : null
+  ).filter((entry) => entry !== null);
+
+  // No Entries API: plain files only (folders can't be told apart)
+  if (entries.length === 0) {
+    return Promise.resolve(
+      Array.from(data.files, (file): DroppedEntry => ({
+        type: "file",
+        name: file.name,
+        file,
+      }))
+    );
+  }
+
+  return readEntries(entries);
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+async function readEntries(entries: FileSystemEntry[]): Promise<DroppedEntry[]> {
+  const read = await Promise.all(entries.map(readEntry));
+  return read.filter((entry) => entry !== null);
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<DroppedEntry | null> {
+  try {
+    if (isFileEntry(entry)) {
+      const file = await new Promise<File>((resolve, reject) =>
+        entry.file(resolve, reject)
+      );
+      return { type: "file", name: entry.name, file };
+    }
+
+    if (isDirectoryEntry(entry)) {
+      const children = await readEntries(await readDirectory(entry));
+      return { type: "directory", name: entry.name, children };
+    }
+  } catch {
+    // Unreadable - skipped (see above)
+  }
+  return null;
+}
+
+/**
+ * All of a directory's entries. readEntries hands them out in batches
+ * (100 at a time in Chrome) and signals the end with an empty one.
+ */
+async function readDirectory(
+  directory: FileSystemDirectoryEntry
+): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+function isFileEntry(entry: FileSystemEntry): entry is FileSystemFileEntry {
+  return entry.isFile;
+}
+
+function isDirectoryEntry(
+  entry: FileSystemEntry
+): entry is FileSystemDirectoryEntry {
+  return entry.isDirectory;
+}
@@ -0,0 +1,317 @@
+import {
+  KeyboardCode,
+  type KeyboardCodes,
+  type KeyboardCoordinateGetter,
+} from "@dnd-kit/core";
+import type { TTreeNode } from "../../types";
+import type {
+  DragOperation,
+  HoveredParent,
+  InternalTreeNode,
+  SelectableTreeNode,
+} from "./types";
+import { selectCollapsed, type TreeStoreApi } from "./store";
+import { canDropInto, getChildIndex } from "./utils";
+
+// =============================================================================
+// KEYBOARD DRAG AND DROP
+// =============================================================================
+//
+// Pointer drags compute the drop target from GEOMETRY: where is the dragged
+// item's center relative to the hovered row? (see handleDragMove)
+//
+// Keyboard drags have no meaningful geometry - the user presses ArrowDown
+// and expects to land on the NEXT place the items could go. So instead of
+// nudging the overlay a few pixels and hoping collision detection agrees,
+// we enumerate every valid drop position up front and step through them:
+//
+//   Flat list:        Drop positions (in order):
+//   transactions      above transactions | inside transactions
+//     initiate          above initiate   | below initiate
+//     cancel                             | below cancel
+//   refunds           above refunds      | inside refunds | below refunds
+//   webhook           above webhook      | below webhook
+//
+// Each position is a regular HoveredParent, so the drop markers, the
+// inside-ring and handleDragEnd all work exactly as they do for pointers.
+//
+// =============================================================================
+
+/**
+ * Space picks up, Enter (or Space again) drops, Escape cancels.
+ * Enter deliberately does NOT pick up - it's free for other row actions.
+ */
+export const keyboardCodes: KeyboardCodes = {
+  start: [KeyboardCode.Space],
+  cancel: [KeyboardCode.Esc],
+  end: [KeyboardCode.Enter, KeyboardCode.Space],
+};
+
+/**
+ * The consumer's rules (see DRAG AND DROP RULES in types.ts), as far as
+ * they decide which positions exist. allowsDrop wraps canDrop with the
+ * dragged items and operation already filled in.
+ */
+export interface KeyboardDropRules {
+  canHaveChildren?: (node: TTreeNode) => boolean;
+
+  /** The tree sorts its rows: only "inside" positions exist */
+  sorted?: boolean;
+
+  allowsDrop?: (parent: InternalTreeNode, childIndex: number) => boolean;
+}
+
+/**
+ * What the coordinate getter needs from Tree on every key press.
+ * revealRow scrolls a (possibly unmounted) row into view and returns its
+ * viewport bounds - see useVirtualRows.
+ */
+export interface KeyboardDragTree {
+  store: TreeStoreApi;
+  root: InternalTreeNode;
+  selectableItems: SelectableTreeNode[];
+
+  /** id → index in selectableItems (see indexSelectableItems) */
+  indexById: Map<string, number>;
+
+  rules: KeyboardDropRules;
+
+  revealRow: (index: number) => { top: number; bottom: number } | null;
+}
+
+/**
+ * A drop position plus the row it is rendered against.
+ * (overId is used to move the drag overlay next to that row)
+ */
+export interface KeyboardDropPosition extends HoveredParent {
+  overId: string;
+}
+
+// =============================================================================
+// ENUMERATE DROP POSITIONS
+// =============================================================================
+//
+// Mirrors the zones handleDragMove uses for pointers:
+//   - Files:              above / below
+//   - Collapsed folders:  above / inside / below
+//   - Expanded folders:   above / inside  (their first child covers "below")
+//
+// Plus the end-of-list catch zone (after everything, at the root).
+//
+// Two positions that insert at the same place (e.g. "below A" and "above B"
+// for siblings A and B) are de-duplicated, so every key press visibly moves.
+//
+// Positions that would MOVE a folder into itself or a descendant are
+// skipped - the same canDropInto rule the pointer path enforces. Copies
+// (Alt/Option held) may go anywhere.
+//
+// So are positions the consumer's rules refuse: there's no "inside" for a
+// folder that can't have children, and nothing canDrop rejects. (A pointer
+// shows those in red instead - a keyboard user would just be stepping
+// through dead ends.)
+//
+// WHILE SORTED (see SORTING in types.ts) there's nothing between rows to
+// step through - just the root, then every folder in list order:
+//
+//   (the root)  |  inside transactions  |  inside refunds  | …
+//
+// =============================================================================
+
+export function getKeyboardDropPositions(
+  root: InternalTreeNode,
+  selectableItems: SelectableTreeNode[],
+  collapsed: Record<string, boolean>,
+  draggingIds: string[],
+  operation: DragOperation = "move",
+  rules: KeyboardDropRules = {}
+): KeyboardDropPosition[] {
+  const { canHaveChildren, sorted = false, allowsDrop } = rules;
+  const positions: KeyboardDropPosition[] = [];
+  const seen = new Set<string>();
+  const draggingSet = new Set(draggingIds);
+
+  const add = (
+    parent: InternalTreeNode | null,
+    childIndex: number,
+    index: number,
+    dropIntent: "above" | "below" | "inside",
+    overId: string
+  ) => {
+    if (!parent) return;
+
+    // Can't move into self or a descendant
+    if (!canDropInto(parent, draggingSet, operation)) return;
+
+    const key = `${parent.item.id}:${childIndex}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    if (allowsDrop && !allowsDrop(parent, childIndex)) return;
+
+    positions.push({
+      parentId: parent.item.id,
+      parentDepth: parent.depth,
+      index,
+      childIndex,
+      dropIntent,
+      rejected: false,
+      overId,
+    });
+  };
+
+  if (sorted) {
+    const first = selectableItems[0];
+    if (first) {
+      add(root, root.children?.length ?? 0, 0, "inside", first.node.item.id);
+    }
+
+    for (const { node, index } of selectableItems) {
+      if (node.item.type === "directory" && (canHaveChildren?.(node.item) ?? true)) {
+        add(node, node.children?.length ?? 0, index, "inside", node.item.id);
+      }
+    }
+    return positions;
+  }
+
+  for (const { node, index } of selectableItems) {
+    const id = node.item.id;
+    const childIndex = getChildIndex(node);
+
+    add(node.parent, childIndex, index, "above", id);
+
+    if (node.item.type === "directory") {
+      const isExpanded = !(collapsed[id] ?? false);
+      const hasChildren = node.children && node.children.length > 0;
+
+      if (canHaveChildren?.(node.item) ?? true) {
+        add(node, 0, isExpanded && hasChildren ? index + 1 : index, "inside", id);
+      }
+
+      if (isExpanded && hasChildren) continue;
+    }
+
+    add(node.parent, childIndex + 1, index + 1, "below", id);
+  }
+
+  // End-of-list catch zone
+  const last = selectableItems[selectableItems.length - 1];
+  if (last) {
+    add(
+      root,
+      root.children?.length ?? 0,
+      selectableItems.length,
+      "below",
+      last.node.item.id
+    );
+  }
+
+  return positions;
+}
+
+// =============================================================================
+// POSITION HELPERS
+// =============================================================================
+
+/** Strip the overlay-only field so the position can go into the store */
+export function toHoveredParent(position: KeyboardDropPosition): HoveredParent {
+  return {
+    parentId: position.parentId,
+    parentDepth: position.parentDepth,
+    index: position.index,
+    childIndex: position.childIndex,
+    dropIntent: position.dropIntent,
+    rejected: position.rejected,
+  };
+}
+
+/** Index of the store's current drop target among the positions (-1 if none) */
+function findDropPosition(
+  positions: KeyboardDropPosition[],
+  hoveredParent: HoveredParent
+): number {
+  return positions.findIndex(
+    (p) =>
+      p.parentId === hoveredParent.parentId &&
+      p.childIndex === hoveredParent.childIndex &&
+      p.dropIntent === hoveredParent.dropIntent
+  );
+}
+
+// =============================================================================
+// COORDINATE GETTER
+// =============================================================================
+//
+// dnd-kit's KeyboardSensor calls this on every key press during a keyboard
+// drag and moves the overlay to whatever coordinates we return.
+//
+// We use it as our "step" hook:
+//   1. Work out the next/previous drop position
+//   2. Write it to the store (markers + ring update immediately)
+//   3. Scroll the target row into view and return coordinates that put
+//      the overlay next to it
+//
+// The caller passes the CURRENT tree on every key press (not one captured
+// at drag start) because the flat list changes mid-drag when a folder
+// auto-expands. The operation is current too - Alt/Option can be
+// pressed or released between steps.
+//
+// The target row may be scrolled out of view - and, with virtualized
+// rendering, not even mounted - so its position comes from the tree's
+// row offsets rather than from its DOM node.
+//
+// =============================================================================
+
+export function stepKeyboardDrop(
+  event: KeyboardEvent,
+  { currentCoordinates }: Parameters<KeyboardCoordinateGetter>[1],
+  tree: KeyboardDragTree,
+  operation: DragOperation
+): ReturnType<KeyboardCoordinateGetter> {
+  let step: number;
+  switch (event.code) {
+    case KeyboardCode.Down:
+      step = 1;
+      break;
+    case KeyboardCode.Up:
+      step = -1;
+      break;
+    default:
+      return undefined;
+  }
+
+  event.preventDefault();
+
+  const { store, root, selectableItems, indexById, rules, revealRow } = tree;
+  const state = store.getState();
+  const { draggingIds, hoveredParent, setHoveredParent } = state;
+
+  const positions = getKeyboardDropPositions(
+    root,
+    selectableItems,
+    selectCollapsed(state),
+    draggingIds,
+    operation,
+    rules
+  );
+  if (positions.length === 0) return undefined;
+
+  // Step from the current position, clamped to the ends of the list
+  const currentIndex = findDropPosition(positions, hoveredParent);
+  const nextIndex =
+    currentIndex === -1
+      ? 0
+      : Math.max(0, Math.min(currentIndex + step, positions.length - 1));
+  const target = positions[nextIndex];
+  const next = toHoveredParent(target);
+
+  setHoveredParent(next);
+
+  // Park the overlay on the target row (below drops sit under it)
+  const rowRect = revealRow(indexById.get(target.overId) ?? -1);
+  if (!rowRect) return currentCoordinates;
+
+  return {
+    x: currentCoordinates.x,
+    y: next.dropIntent === "below" ? rowRect.bottom : rowRect.top,
+  };
+}
@@ -0,0 +1,239 @@
+import type { TTree, TTreeNode } from "../../types";
+
+// =============================================================================
+// PERSISTENCE
+// =============================================================================
+//
+// Opt-in saving of the state a user expects to survive a reload:
+//
+//   <Tree data={data} persist={{ id: "sidebar" }} />
+//
+// WHAT IS SAVED?
+//   - collapsed     which folders are closed
+//   - selectedIds   the selection
+//   - anchorId      where the next shift+click range starts
+//   - scrollTop     how far down the tree was scrolled
+//
+//   Drag, focus and rename state are never saved - they only make sense
+//   mid-gesture.
+//
+// WHERE?
+//   In a TreeStorage under "tree-state:<id>", so several trees (or several
+//   instances of one tree) on a site each keep their own state. The
+//   default storage is localStorage; memoryStorage keeps state for the
+//   lifetime of the page (tests, embedded views, SSR).
+//
+// STALE IDS
+//   The data may have changed since the state was saved - files deleted,
+//   folders renamed to new ids. loadTreeState drops every id that isn't in
+//   the current tree, and saving only ever writes ids that are.
+//
+// LAZY FOLDERS
+//   Their children aren't in the data until they load (see LAZY CHILDREN
+//   in types.ts), so while any lazy folder is unloaded, an unknown id may
+//   well be below it - those are kept. And a lazy folder starts collapsed,
+//   so its "expanded" (false) entry is saved too: without it the folder
+//   would close again on reload, and nothing below it would load.
+//
+// =============================================================================
+
+/**
+ * Where persisted state lives. A subset of the Web Storage API, so
+ * localStorage and sessionStorage can be passed as they are.
+ */
+export interface TreeStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface PersistOptions {
+  /** Identifies this tree's state in the storage */
+  id: string;
+
+  /** Where to keep it (default: localStorage) */
+  storage?: TreeStorage;
+}
+
+export interface PersistedTreeState {
+  collapsed: Record<string, boolean>;
+  selectedIds: string[];
+  anchorId: string | null;
+  scrollTop: number;
+}
+
+/** Bumped whenever PersistedTreeState changes shape; older entries are ignored */
+const VERSION = 1;
+
+// =============================================================================
+// STORAGE ADAPTERS
+// =============================================================================
+
+/**
+ * localStorage, or an always-empty storage where it isn't available
+ * (SSR, or browsers that throw on access with storage disabled).
+ * Quota errors on write are swallowed - losing saved UI state is better
+ * than breaking the tree.
+ */
+export function createLocalStorage(): TreeStorage {
+  let storage: Storage | null = null;
+  try {
+    storage = window.localStorage;
+  } catch {
+    // Access denied - fall through to the no-op storage
+  }
+
+  return {
+    getItem: (key) => storage?.getItem(key) ?? null,
+    setItem: (key, value) => {
+      try {
+        storage?.setItem(key, value);
+      } catch {
+        // Quota exceeded
+      }
+    },
+    removeItem: (key) => storage?.removeItem(key),
+  };
+}
+
+/** A storage that lives in memory (shared by everything holding it) */
+export function createMemoryStorage(): TreeStorage {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+// Created on first use, so importing this module never touches window
+let defaultStorage: TreeStorage | null = null;
+
+function getStorage({ storage }: PersistOptions): TreeStorage {
+  if (storage) return storage;
+  defaultStorage ??= createLocalStorage();
+  return defaultStorage;
+}
+
+function getKey({ id }: PersistOptions): string {
+  return `tree-state:${id}`;
+}
+
+// =============================================================================
+// LOAD
+// =============================================================================
+//
+// Returns null when nothing (valid) was saved. Anything unexpected in the
+// stored JSON - another version, hand edits, a different app using the
+// same key - counts as "nothing saved".
+//
+// =============================================================================
+
+export function loadTreeState(
+  options: PersistOptions,
+  data: TTree
+): PersistedTreeState | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(getStorage(options).getItem(getKey(options)) ?? "null");
+  } catch {
+    return null;
+  }
+
+  if (!isPersistedState(parsed)) return null;
+
+  return pruneTreeState(parsed, indexTree(data));
+}
+
+// =============================================================================
+// SAVE
+// =============================================================================
+
+/** `data` is the tree as shown - with loaded lazy children merged in */
+export function saveTreeState(
+  options: PersistOptions,
+  state: PersistedTreeState,
+  data: TTree
+): void {
+  const pruned = pruneTreeState(state, indexTree(data));
+  getStorage(options).setItem(
+    getKey(options),
+    JSON.stringify({ version: VERSION, ...pruned })
+  );
+}
+
+/** Forget this tree's saved state */
+export function clearTreeState(options: PersistOptions): void {
+  getStorage(options).removeItem(getKey(options));
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+interface TreeIndex {
+  ids: Set<string>;
+
+  /** Folders marked `lazy`, loaded or not */
+  lazyIds: Set<string>;
+
+  /** Whether some lazy folder's children are still missing */
+  hasUnloaded: boolean;
+}
+
+/**
+ * Drops ids that aren't in the tree (unless they may be below an unloaded
+ * lazy folder). Expanded folders are dropped too - "expanded" is the
+ * default, so only collapsed ones need saving - except lazy ones (see
+ * LAZY FOLDERS above).
+ */
+function pruneTreeState(
+  { collapsed, selectedIds, anchorId, scrollTop }: PersistedTreeState,
+  { ids, lazyIds, hasUnloaded }: TreeIndex
+): PersistedTreeState {
+  const exists = (id: string) => ids.has(id) || hasUnloaded;
+
+  return {
+    collapsed: Object.fromEntries(
+      Object.entries(collapsed).filter(
+        ([id, value]) => exists(id) && (value || lazyIds.has(id) || !ids.has(id))
+      )
+    ),
+    selectedIds: selectedIds.filter(exists),
+    anchorId: anchorId !== null && exists(anchorId) ? anchorId : null,
+    scrollTop,
+  };
+}
+
+function indexTree(root: TTreeNode): TreeIndex {
+  const index: TreeIndex = { ids: new Set(), lazyIds: new Set(), hasUnloaded: false };
+  const stack: TTreeNode[] = [root];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    index.ids.add(node.id);
+    if (node.lazy) {
+      index.lazyIds.add(node.id);
+      index.hasUnloaded ||= node.children === undefined;
+    }
+    if (node.children) stack.push(...node.children);
+  }
+
+  return index;
+}
+
+function isPersistedState(value: unknown): value is PersistedTreeState {
+  if (typeof value !== "object" || value === null) return false;
+
+  const state = value as Record<string, unknown>;
+  return (
+    state.version === VERSION &&
+    typeof state.collapsed === "object" &&
+    state.collapsed !== null &&
+    Array.isArray(state.selectedIds) &&
+    state.selectedIds.every((id) => typeof id === "string") &&
+    (state.anchorId === null || typeof state.anchorId === "string") &&
+    typeof state.scrollTop === "number"
+  );
+}
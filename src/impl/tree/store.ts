@@ -1,8 +1,15 @@
-import { create } from "zustand";
-import type { HoveredParent } from "./types";
+import { createContext, useContext } from "react";
+import { createStore, useStore, type StoreApi } from "zustand";
+import type {
+  ChildrenLoad,
+  HoveredParent,
+  PendingCreate,
+  TreeClipboard,
+} from "./types";
+import { NEW_ITEM_ID } from "./utils";
 
 // =============================================================================
-// WHY A GLOBAL STORE?
+// WHY A STORE?
 // =============================================================================
 //
 // Your current implementation has STATE SCATTERED across components:
@@ -27,13 +34,26 @@ import type { HoveredParent } from "./types";
 //   - Write: "collapse folder X" → store.toggleCollapsed("X")
 //   - React to changes: component re-renders when relevant state changes
 //
+// ONE STORE PER TREE
+//   The store is not a module-level singleton: each <Tree> creates its own
+//   (createTreeStore) and hands it down through TreeStoreContext, so two
+//   trees on a page never share selection, collapsed folders or drags.
+//   The consumer can still own selection and collapse state - see
+//   useControlledTreeStore.ts.
+//
 // =============================================================================
 
 // =============================================================================
 // STORE INTERFACE
 // =============================================================================
 
-interface TreeStore {
+export interface TreeStore {
+  /**
+   * Identifies this tree among the trees and drop zones sharing one drag
+   * context (see treeDnd.ts). Fixed for the store's lifetime.
+   */
+  treeId: string;
+
   // ---------------------------------------------------------------------------
   // SELECTION STATE
   // ---------------------------------------------------------------------------
@@ -51,9 +71,16 @@ interface TreeStore {
   //
   // ---------------------------------------------------------------------------
 
-  /** Array of currently selected item IDs */
+  /** Array of currently selected item IDs (in selection order) */
   selectedIds: string[];
 
+  /**
+   * The same IDs as a Set, kept in sync by setSelectedIds.
+   * Every row asks "am I selected?" - with thousands of rows (and thousands
+   * selected) that must be an O(1) has(), not an O(m) includes().
+   */
+  selectedSet: ReadonlySet<string>;
+
   /**
    * The "anchor" for shift-click range selection.
    * When you shift+click, we select from anchorId to the clicked item.
@@ -61,6 +88,51 @@ interface TreeStore {
    */
   anchorId: string | null;
 
+  // ---------------------------------------------------------------------------
+  // FOCUS STATE
+  // ---------------------------------------------------------------------------
+  //
+  // Tracks which item has KEYBOARD focus (the "roving" tab stop).
+  //
+  // This is deliberately separate from anchorId:
+  //   - anchorId: where a range selection STARTED
+  //   - focusedId: where the cursor IS right now
+  //
+  //   1. Click "item-1"      → anchorId = "item-1", focusedId = "item-1"
+  //   2. Shift+ArrowDown x3  → anchorId = "item-1", focusedId = "item-4"
+  //      → selectedIds = ["item-1", "item-2", "item-3", "item-4"]
+  //
+  // Only the focused item gets tabIndex=0, so Tab moves in and out of the
+  // tree as a single stop instead of visiting every row.
+  //
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The item that currently holds keyboard focus.
+   * null = nothing focused yet (first visible item becomes the tab stop).
+   */
+  focusedId: string | null;
+
+  // ---------------------------------------------------------------------------
+  // EDITING STATE
+  // ---------------------------------------------------------------------------
+  //
+  // Tracks which item (if any) is being renamed inline.
+  // At most one item can be in edit mode at a time, so a single ID is enough.
+  //
+  // editingId: "item-3" → item-3 shows an <input> instead of its name
+  //
+  // ---------------------------------------------------------------------------
+
+  /** ID of the item currently being renamed, or null */
+  editingId: string | null;
+
+  /**
+   * A new file/folder waiting for its name, or null.
+   * While set, Tree renders a placeholder row (NEW_ITEM_ID) in rename mode.
+   */
+  pendingCreate: PendingCreate | null;
+
   // ---------------------------------------------------------------------------
   // COLLAPSE STATE
   // ---------------------------------------------------------------------------
@@ -72,7 +144,7 @@ interface TreeStore {
   //   → all other folders are expanded (default)
   //
   // We use a Record<string, boolean> instead of a Set because:
-  //   1. Easier to persist to localStorage if needed
+  //   1. Easier to persist (see persistence.ts)
   //   2. Works better with Zustand's equality checks
   //
   // ---------------------------------------------------------------------------
@@ -84,6 +156,30 @@ interface TreeStore {
    */
   collapsed: Record<string, boolean>;
 
+  /**
+   * The collapse state of the FILTERED view while a filter is active,
+   * null otherwise (see useTreeFilter). Starts empty - every folder on the
+   * way to a match is open, whatever `collapsed` says, except unloaded lazy
+   * folders (see collapseByDefault) - and takes all
+   * collapse changes made while filtering, so `collapsed` is exactly as
+   * the user left it when the filter is cleared.
+   *
+   * Read the one that applies through selectCollapsed.
+   */
+  filterCollapsed: Record<string, boolean> | null;
+
+  /**
+   * The collapse state during a SPRING-LOADED drag (Tree's springLoaded),
+   * null otherwise. Copied from the map that applies the moment a drag
+   * first opens a folder, it takes every collapse change until the drop or
+   * cancel - when it's thrown away, leaving open only the folders the
+   * items were dropped into (see endSpringLoading).
+   *
+   * It sits on top of filterCollapsed/collapsed: read it through
+   * selectCollapsed like them.
+   */
+  springCollapsed: Record<string, boolean> | null;
+
   // ---------------------------------------------------------------------------
   // DRAG STATE
   // ---------------------------------------------------------------------------
@@ -107,6 +203,12 @@ interface TreeStore {
   /** IDs of items currently being dragged */
   draggingIds: string[];
 
+  /**
+   * The same IDs as a Set, kept in sync by setDraggingIds - every row
+   * asks "am I being dragged?" on every store update during a drag.
+   */
+  draggingSet: ReadonlySet<string>;
+
   /**
    * Current drop target information.
    * Updated during drag as mouse moves.
@@ -114,6 +216,33 @@ interface TreeStore {
    */
   hoveredParent: HoveredParent;
 
+  // ---------------------------------------------------------------------------
+  // LAZY CHILDREN
+  // ---------------------------------------------------------------------------
+  //
+  // Folder ID → where its loadChildren request stands (see
+  // useLazyChildren). Loaded children stay here for the life of the tree:
+  // a folder is only ever loaded once.
+  //
+  // ---------------------------------------------------------------------------
+
+  childLoads: Record<string, ChildrenLoad>;
+
+  // ---------------------------------------------------------------------------
+  // CLIPBOARD
+  // ---------------------------------------------------------------------------
+  //
+  // What Cmd/Ctrl+X or Cmd/Ctrl+C last put on the clipboard (see
+  // useTreeClipboard). Cut items stay in place - dimmed, via cutSet - until
+  // they're pasted somewhere.
+  //
+  // ---------------------------------------------------------------------------
+
+  clipboard: TreeClipboard | null;
+
+  /** IDs of the cut items (empty after a copy), for O(1) "is this row cut?" */
+  cutSet: ReadonlySet<string>;
+
   // ---------------------------------------------------------------------------
   // ACTIONS
   // ---------------------------------------------------------------------------
@@ -129,20 +258,71 @@ interface TreeStore {
   /** Set the anchor point for shift-click selection */
   setAnchorId: (id: string | null) => void;
 
+  /** Move keyboard focus to an item */
+  setFocusedId: (id: string | null) => void;
+
+  /** Enter (id) or leave (null) inline rename mode */
+  setEditingId: (id: string | null) => void;
+
+  /**
+   * Show a placeholder row for a new item and put it in rename mode.
+   * Also expands the target folder so the placeholder is visible.
+   */
+  startCreating: (pending: PendingCreate) => void;
+
+  /** Remove the placeholder row and give focus back */
+  finishCreating: () => void;
+
   /** Toggle a folder's collapsed state */
   toggleCollapsed: (id: string) => void;
 
   /** Explicitly set a folder's collapsed state */
   setCollapsed: (id: string, collapsed: boolean) => void;
 
+  /** Start (or restart, for a new query) or end the filtered view */
+  setFilterActive: (active: boolean) => void;
+
+  /**
+   * Open a folder for the rest of the drag only - the spring-loaded
+   * auto-expand (starts springCollapsed if needed)
+   */
+  springOpen: (id: string) => void;
+
+  /**
+   * End the temporary drag state: of the folders it opened, the ones in
+   * keepOpenIds (the drop's folder and those above it) stay open, the
+   * rest close again. A no-op when nothing was spring-opened.
+   */
+  endSpringLoading: (keepOpenIds: string[]) => void;
+
+  /**
+   * Collapse the given folders, unless they already have a collapse state -
+   * in each of the maps above that exists, so a filter or a spring-loaded
+   * drag doesn't show them open (and empty). A map on top takes the state
+   * of the one below instead, if that has one.
+   */
+  collapseByDefault: (ids: string[]) => void;
+
+  /** Record the progress of a folder's loadChildren request */
+  setChildrenLoad: (id: string, load: ChildrenLoad) => void;
+
   /** Set which items are being dragged */
   setDraggingIds: (ids: string[]) => void;
 
   /** Update the current drop target */
   setHoveredParent: (hp: HoveredParent) => void;
 
+  /**
+   * Drop the current drop target. A no-op when there is none, so trees a
+   * drag merely passes by don't re-render on every pointer move.
+   */
+  clearHoveredParent: () => void;
+
   /** Clear all drag-related state (called on drop or cancel) */
   clearDragState: () => void;
+
+  /** Replace (or, with null, empty) the clipboard */
+  setClipboard: (clipboard: TreeClipboard | null) => void;
 }
 
 // =============================================================================
@@ -155,21 +335,22 @@ const initialHoveredParent: HoveredParent = {
   index: null,
   childIndex: null,
   dropIntent: null,
+  rejected: false,
 };
 
 // =============================================================================
 // CREATE THE STORE
 // =============================================================================
 //
-// Zustand's `create` function returns a hook that components use to access
-// the store. Components automatically re-render when the state they're
-// subscribed to changes.
+// createTreeStore builds a fresh store (Tree calls it once per instance).
+// Components inside the tree reach it through useTreeStore, and
+// automatically re-render when the state they're subscribed to changes.
 //
 // Example usage in a component:
 //
 //   function TreeNode({ id }) {
 //     // Only re-renders when THIS item's selection changes
-//     const isSelected = useTreeStore(state => state.selectedIds.includes(id));
+//     const isSelected = useTreeStore(state => state.selectedSet.has(id));
 //
 //     // Only re-renders when THIS folder's collapse state changes
 //     const isCollapsed = useTreeStore(state => state.collapsed[id] ?? false);
@@ -186,46 +367,201 @@ const initialHoveredParent: HoveredParent = {
 //
 // =============================================================================
 
-export const useTreeStore = create<TreeStore>((set) => ({
-  // Initial state
-  selectedIds: [],
-  anchorId: null,
-  collapsed: {},
-  draggingIds: [],
-  hoveredParent: initialHoveredParent,
+export type TreeStoreApi = StoreApi<TreeStore>;
+
+/** State a tree can start with (everything else starts empty) */
+export interface InitialTreeState {
+  selectedIds?: string[];
+  anchorId?: string | null;
+  collapsed?: Record<string, boolean>;
+}
+
+export function createTreeStore(
+  treeId: string,
+  { selectedIds = [], anchorId = null, collapsed = {} }: InitialTreeState = {}
+): TreeStoreApi {
+  return createStore<TreeStore>()((set, get) => ({
+    treeId,
+
+    // Initial state
+    selectedIds,
+    selectedSet: new Set(selectedIds),
+    anchorId,
+    focusedId: null,
+    editingId: null,
+    pendingCreate: null,
+    collapsed,
+    filterCollapsed: null,
+    springCollapsed: null,
+    draggingIds: [],
+    draggingSet: new Set(),
+    hoveredParent: initialHoveredParent,
+    childLoads: {},
+    clipboard: null,
+    cutSet: new Set(),
+
+    // Actions
+    setSelectedIds: (ids) => set({ selectedIds: ids, selectedSet: new Set(ids) }),
 
-  // Actions
-  setSelectedIds: (ids) => set({ selectedIds: ids }),
+    setAnchorId: (id) => set({ anchorId: id }),
 
-  setAnchorId: (id) => set({ anchorId: id }),
+    setFocusedId: (id) => set({ focusedId: id }),
 
-  toggleCollapsed: (id) =>
-    set((state) => ({
-      collapsed: {
-        ...state.collapsed,
+    setEditingId: (id) => set({ editingId: id }),
+
+    startCreating: (pending) =>
+      set((state) => ({
+        pendingCreate: pending,
+        editingId: NEW_ITEM_ID,
+        focusedId: NEW_ITEM_ID,
+        ...withCollapsed(state, pending.parentId, false),
+      })),
+
+    finishCreating: () =>
+      set((state) => ({
+        pendingCreate: null,
+        editingId: null,
+        focusedId: state.pendingCreate?.returnFocusId ?? state.focusedId,
+      })),
+
+    toggleCollapsed: (id) =>
+      set((state) =>
         // Toggle: if it was true, make it false (or remove); if false/missing, make it true
-        [id]: !state.collapsed[id],
-      },
-    })),
+        withCollapsed(state, id, !selectCollapsed(state)[id])
+      ),
+
+    setCollapsed: (id, collapsed) =>
+      set((state) => withCollapsed(state, id, collapsed)),
+
+    setFilterActive: (active) => set({ filterCollapsed: active ? {} : null }),
+
+    springOpen: (id) =>
+      set((state) => ({
+        springCollapsed: { ...selectCollapsed(state), [id]: false },
+      })),
+
+    endSpringLoading: (keepOpenIds) => {
+      const { springCollapsed } = get();
+      if (!springCollapsed) return;
 
-  setCollapsed: (id, collapsed) =>
-    set((state) => ({
-      collapsed: {
-        ...state.collapsed,
-        [id]: collapsed,
-      },
-    })),
+      // Back to the map underneath, re-opening the folders the drop went into
+      let next: TreeStore = { ...get(), springCollapsed: null };
+      for (const id of keepOpenIds) {
+        if (springCollapsed[id] === false && selectCollapsed(next)[id]) {
+          next = { ...next, ...withCollapsed(next, id, false) };
+        }
+      }
 
-  setDraggingIds: (ids) => set({ draggingIds: ids }),
+      set({
+        springCollapsed: null,
+        collapsed: next.collapsed,
+        filterCollapsed: next.filterCollapsed,
+      });
+    },
 
-  setHoveredParent: (hp) => set({ hoveredParent: hp }),
+    collapseByDefault: (ids) => {
+      const state = get();
+      const next: Partial<TreeStore> = {};
+      let below: Record<string, boolean> = {};
 
-  clearDragState: () =>
-    set({
-      draggingIds: [],
-      hoveredParent: initialHoveredParent,
-    }),
-}));
+      for (const key of ["collapsed", "filterCollapsed", "springCollapsed"] as const) {
+        const map = state[key];
+        if (!map) continue;
+
+        const unset = ids.filter((id) => map[id] === undefined);
+        if (unset.length > 0) {
+          next[key] = {
+            ...map,
+            ...Object.fromEntries(unset.map((id) => [id, below[id] ?? true])),
+          };
+        }
+        below = next[key] ?? map;
+      }
+
+      if (Object.keys(next).length > 0) set(next);
+    },
+
+    setChildrenLoad: (id, load) =>
+      set((state) => ({ childLoads: { ...state.childLoads, [id]: load } })),
+
+    setDraggingIds: (ids) => set({ draggingIds: ids, draggingSet: new Set(ids) }),
+
+    setHoveredParent: (hp) => set({ hoveredParent: hp }),
+
+    clearHoveredParent: () => {
+      if (get().hoveredParent !== initialHoveredParent) {
+        set({ hoveredParent: initialHoveredParent });
+      }
+    },
+
+    clearDragState: () =>
+      set({
+        draggingIds: [],
+        draggingSet: new Set(),
+        hoveredParent: initialHoveredParent,
+      }),
+
+    setClipboard: (clipboard) =>
+      set({
+        clipboard,
+        cutSet:
+          clipboard?.operation === "move"
+            ? new Set(clipboard.items.map((item) => item.id))
+            : new Set(),
+      }),
+  }));
+}
+
+// =============================================================================
+// COLLAPSE STATE WHILE FILTERING (OR SPRING-LOADED DRAGGING)
+// =============================================================================
+//
+// Everything that shows, hides or toggles folders goes through these two,
+// so it works on whichever map currently applies (see filterCollapsed and
+// springCollapsed).
+//
+// =============================================================================
+
+/** The collapse state currently on screen */
+export function selectCollapsed(state: TreeStore): Record<string, boolean> {
+  return state.springCollapsed ?? state.filterCollapsed ?? state.collapsed;
+}
+
+function withCollapsed(
+  state: TreeStore,
+  id: string,
+  collapsed: boolean
+):
+  | Pick<TreeStore, "collapsed">
+  | Pick<TreeStore, "filterCollapsed">
+  | Pick<TreeStore, "springCollapsed"> {
+  if (state.springCollapsed) {
+    return { springCollapsed: { ...state.springCollapsed, [id]: collapsed } };
+  }
+  return state.filterCollapsed
+    ? { filterCollapsed: { ...state.filterCollapsed, [id]: collapsed } }
+    : { collapsed: { ...state.collapsed, [id]: collapsed } };
+}
+
+// =============================================================================
+// CONTEXT
+// =============================================================================
+
+export const TreeStoreContext = createContext<TreeStoreApi | null>(null);
+
+/** The store of the enclosing <Tree> */
+export function useTreeStoreApi(): TreeStoreApi {
+  const store = useContext(TreeStoreContext);
+  if (!store) {
+    throw new Error("useTreeStore must be used inside a <Tree>");
+  }
+  return store;
+}
+
+/** Subscribe to a slice of the enclosing tree's state */
+export function useTreeStore<T>(selector: (state: TreeStore) => T): T {
+  return useStore(useTreeStoreApi(), selector);
+}
 
 // =============================================================================
 // STORE ACCESS OUTSIDE REACT
@@ -234,13 +570,15 @@ export const useTreeStore = create<TreeStore>((set) => ({
 // Sometimes you need to read/write store state outside of React components
 // (e.g., in event handlers, drag callbacks, etc.).
 //
-// Zustand provides getState() and setState() for this:
+// Zustand provides getState() and setState() on the store itself:
+//
+//   const store = useTreeStoreApi();
 //
 //   // Read current state
-//   const currentSelection = useTreeStore.getState().selectedIds;
+//   const currentSelection = store.getState().selectedIds;
 //
 //   // Write new state
-//   useTreeStore.getState().setSelectedIds(["item-1"]);
+//   store.getState().setSelectedIds(["item-1"]);
 //
 // This is useful in drag handlers where we need the latest state
 // without causing re-renders.
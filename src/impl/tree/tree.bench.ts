@@ -0,0 +1,131 @@
+import type { TTree, TTreeNode } from "../../types";
+import { buildInternalTree, getChildIndex, hasAnyAncestor } from "./utils";
+import { flattenVisibleItems, indexSelectableItems } from "./useSelectableItems";
+
+// =============================================================================
+// TREE BENCHMARK
+// =============================================================================
+//
+// Times the work Tree does per data change and per drag event on large
+// synthetic trees:
+//
+//   npm run bench
+//
+// PER DATA CHANGE (once per new `data`):
+//   - buildInternalTree     parents, depths, childIndex, nodesById
+//   - flattenVisibleItems   the visible rows
+//   - indexSelectableItems  id → row index
+//
+// PER DRAG EVENT (what handleDragMove does for the hovered row):
+//   - indexed: visibleIndexById.get + getChildIndex + hasAnyAncestor
+//   - linear:  the scans they replaced (selectableItems.find + a search of
+//              the siblings), for comparison
+//
+// Everything is fully expanded, so every node is a visible row.
+//
+// =============================================================================
+
+const SIZES = [10_000, 50_000];
+
+/** Drag events simulated per size */
+const EVENTS = 2_000;
+
+/** Children per folder */
+const FAN_OUT = 12;
+
+/** One in every FOLDER_EVERY nodes is a folder (so 4 per folder - a shallow tree) */
+const FOLDER_EVERY = 3;
+
+/**
+ * Builds a tree of exactly `size` nodes (root excluded), breadth first:
+ * each folder is filled with FAN_OUT children before the next one starts.
+ */
+function createSyntheticTree(size: number): TTree {
+  const root: TTree = { id: "root", name: "root", type: "directory", children: [] };
+  const folders: TTreeNode[] = [root];
+
+  for (let i = 0, folder = 0; i < size; i++) {
+    const parent = folders[folder];
+    const isFolder = i % FOLDER_EVERY === 0;
+    const node: TTreeNode = isFolder
+      ? { id: `node-${i}`, name: `folder-${i}`, type: "directory", children: [] }
+      : { id: `node-${i}`, name: `file-${i}.ts`, type: "file" };
+
+    parent.children!.push(node);
+    if (isFolder) folders.push(node);
+    if (parent.children!.length === FAN_OUT) folder++;
+  }
+
+  return root;
+}
+
+/** Runs `fn` `runs` times and returns the median duration in ms */
+function time(fn: () => void, runs = 5): number {
+  const durations: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    fn();
+    durations.push(performance.now() - start);
+  }
+  durations.sort((a, b) => a - b);
+  return durations[Math.floor(runs / 2)];
+}
+
+function format(ms: number): string {
+  return ms < 1 ? `${(ms * 1000).toFixed(1)}µs` : `${ms.toFixed(2)}ms`;
+}
+
+function runSize(size: number) {
+  const data = createSyntheticTree(size);
+
+  const { root, nodesById } = buildInternalTree(data);
+  const selectableItems = flattenVisibleItems(root, {});
+  const indexById = indexSelectableItems(selectableItems);
+
+  // Hover targets spread over the whole list (deterministic, not random,
+  // so runs are comparable)
+  const overIds = Array.from(
+    { length: EVENTS },
+    (_, i) => selectableItems[(i * 7919) % selectableItems.length].node.item.id
+  );
+  const draggingSet = new Set([selectableItems[0].node.item.id]);
+
+  // Keep results alive so the engine can't skip the work
+  let sink = 0;
+
+  const results: [string, number][] = [
+    ["buildInternalTree", time(() => void buildInternalTree(data))],
+    ["flattenVisibleItems", time(() => void flattenVisibleItems(root, {}))],
+    ["indexSelectableItems", time(() => void indexSelectableItems(selectableItems))],
+    [
+      "drag event (indexed)",
+      time(() => {
+        for (const id of overIds) {
+          const overNode = selectableItems[indexById.get(id)!].node;
+          sink += getChildIndex(overNode);
+          sink += hasAnyAncestor(overNode.parent, draggingSet) ? 1 : 0;
+        }
+      }) / EVENTS,
+    ],
+    [
+      "drag event (linear)",
+      time(() => {
+        for (const id of overIds) {
+          const overNode = selectableItems.find((s) => s.node.item.id === id)!.node;
+          sink += overNode.parent!.children!.findIndex((c) => c.item.id === id);
+        }
+      }) / EVENTS,
+    ],
+  ];
+
+  console.log(`\n${size.toLocaleString("en-US")} nodes (${nodesById.size} indexed)`);
+  for (const [label, ms] of results) {
+    console.log(`  ${label.padEnd(24)} ${format(ms)}`);
+  }
+
+  return sink;
+}
+
+for (const size of SIZES) {
+  runSize(size);
+}
@@ -0,0 +1,443 @@
+import type { TTree, TTreeNode } from "../../types";
+import type { DragEndPayload } from "./types";
+import {
+  buildInternalTree,
+  filterTree,
+  getCopyName,
+  getRangeIds,
+  getRowDropTarget,
+  getSortComparator,
+  getTopmostNodes,
+} from "./utils";
+import {
+  findNode,
+  moveNodes,
+  removeNodes,
+  renameNode,
+  setChildren,
+} from "./treeOps";
+import { copyCommand, importFilesCommand } from "./commands";
+import { getKeyboardDropPositions } from "./keyboardDrag";
+import {
+  createMemoryStorage,
+  loadTreeState,
+  saveTreeState,
+  type PersistedTreeState,
+} from "./persistence";
+import { flattenVisibleItems, indexSelectableItems } from "./useSelectableItems";
+import { createTreeStore, selectCollapsed } from "./store";
+
+// =============================================================================
+// TREE TESTS
+// =============================================================================
+//
+// Checks the pure modules - no React, no DOM - the same way the benchmark
+// runs them:
+//
+//   npm test
+//
+// A test is a function that throws when something is off (see the assert
+// helpers below). Every test runs, then the run fails if any of them did.
+//
+// Every test starts from a fresh copy of this tree:
+//
+//   project
+//     src/
+//       index.ts
+//       utils.ts
+//     docs/
+//       readme.md
+//     package.json
+//
+// =============================================================================
+
+function createTree(): TTree {
+  return {
+    id: "root",
+    name: "project",
+    type: "directory",
+    children: [
+      {
+        id: "src",
+        name: "src",
+        type: "directory",
+        children: [
+          { id: "index", name: "index.ts", type: "file" },
+          { id: "utils", name: "utils.ts", type: "file" },
+        ],
+      },
+      {
+        id: "docs",
+        name: "docs",
+        type: "directory",
+        children: [{ id: "readme", name: "readme.md", type: "file" }],
+      },
+      { id: "package", name: "package.json", type: "file" },
+    ],
+  };
+}
+
+/** The names of a folder's children, in order */
+function childNames(tree: TTree, id: string): string[] {
+  return (findNode(tree, id)?.children ?? []).map((child) => child.name);
+}
+
+/** A move or copy payload, as Tree would emit it */
+function payload(
+  tree: TTree,
+  itemIds: string[],
+  parentId: string,
+  insertAt: number,
+  operation: DragEndPayload["operation"] = "move"
+): DragEndPayload {
+  const parent = findNode(tree, parentId)!;
+  return {
+    items: itemIds.map((id) => findNode(tree, id)!),
+    parent,
+    children: parent.children ?? [],
+    insertAt,
+    operation,
+    ordering: "manual",
+  };
+}
+
+// -----------------------------------------------------------------------------
+// RUNNER
+// -----------------------------------------------------------------------------
+
+const tests: { name: string; run: () => void }[] = [];
+
+function test(name: string, run: () => void) {
+  tests.push({ name, run });
+}
+
+function assertEqual<T>(actual: T, expected: T, what = "value") {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${what}: expected ${e}, got ${a}`);
+  }
+}
+
+function assert(condition: boolean, what: string) {
+  if (!condition) throw new Error(what);
+}
+
+// =============================================================================
+// TREE OPS
+// =============================================================================
+
+test("moveNodes inserts at insertAt and shares untouched subtrees", () => {
+  const tree = createTree();
+  const next = moveNodes(tree, payload(tree, ["package"], "src", 1));
+
+  assertEqual(childNames(next, "src"), ["index.ts", "package.json", "utils.ts"]);
+  assertEqual(childNames(next, "root"), ["src", "docs"]);
+  assert(findNode(next, "docs") === findNode(tree, "docs"), "docs was copied");
+  assertEqual(childNames(tree, "root"), ["src", "docs", "package.json"], "input");
+});
+
+test("moveNodes into the moved folder itself is a no-op", () => {
+  const tree = createTree();
+  assert(moveNodes(tree, payload(tree, ["src"], "src", 0)) === tree, "tree changed");
+});
+
+test("moveNodes to a missing folder returns the tree itself", () => {
+  const tree = createTree();
+  const gone = { id: "gone", name: "gone", type: "directory" as const, children: [] };
+  const move = { ...payload(tree, ["index"], "docs", 0), parent: gone };
+  assert(moveNodes(tree, move) === tree, "tree changed");
+});
+
+test("renameNode and removeNodes with unknown ids return the tree itself", () => {
+  const tree = createTree();
+  assert(renameNode(tree, "nope", "x") === tree, "rename changed the tree");
+  assert(removeNodes(tree, ["nope"]) === tree, "remove changed the tree");
+});
+
+test("setChildren puts loaded children into the data", () => {
+  const tree = createTree();
+  tree.children.push({ id: "lazy", name: "remote", type: "directory", lazy: true });
+  const next = setChildren(tree, "lazy", [{ id: "a", name: "a.txt", type: "file" }]);
+
+  assertEqual(childNames(next, "lazy"), ["a.txt"]);
+  assert(findNode(next, "src") === findNode(tree, "src"), "src was copied");
+});
+
+test("removeNodes takes a folder's contents along", () => {
+  const next = removeNodes(createTree(), ["src"]);
+  assertEqual(findNode(next, "index"), null);
+});
+
+// =============================================================================
+// COMMANDS
+// =============================================================================
+
+test("copyCommand inserts copies with fresh ids and keeps the originals", () => {
+  const tree = createTree();
+  const next = copyCommand(payload(tree, ["readme"], "src", 2, "copy")).apply(tree);
+
+  const copy = findNode(next, "src")!.children![2];
+  assertEqual(copy.name, "readme.md");
+  assert(copy.id !== "readme", "the copy kept the original id");
+  assertEqual(childNames(next, "docs"), ["readme.md"]);
+});
+
+test("copyCommand numbers copies into the items' own folder", () => {
+  const tree = createTree();
+  const next = copyCommand(payload(tree, ["index", "utils"], "src", 2, "copy")).apply(
+    tree
+  );
+
+  assertEqual(childNames(next, "src"), [
+    "index.ts",
+    "utils.ts",
+    "index copy.ts",
+    "utils copy.ts",
+  ]);
+});
+
+test("copying a folder along with its own child copies the child once", () => {
+  const tree = createTree();
+  // What Tree sends for a drag of src and index.ts: topmost items only
+  const { root } = buildInternalTree(tree);
+  const items = getTopmostNodes(root, ["index", "src"]).map((node) => node.item);
+  const next = copyCommand({ ...payload(tree, [], "docs", 1, "copy"), items }).apply(tree);
+
+  const copy = findNode(next, "docs")!.children![1];
+  assertEqual(childNames(next, "docs"), ["readme.md", "src"]);
+  assertEqual(childNames(next, copy.id), ["index.ts", "utils.ts"]);
+});
+
+test("importFilesCommand numbers names that clash in the target folder", () => {
+  const tree = createTree();
+  const file = new Blob() as File;
+  const next = importFilesCommand({
+    files: [
+      { type: "file", name: "index.ts", file },
+      { type: "directory", name: "lib", children: [] },
+    ],
+    parent: findNode(tree, "src")!,
+    insertAt: 0,
+    ordering: "manual",
+  }).apply(tree);
+
+  assertEqual(childNames(next, "src"), ["index copy.ts", "lib", "index.ts", "utils.ts"]);
+});
+
+// =============================================================================
+// UTILS
+// =============================================================================
+
+test("getCopyName keeps the extension and counts up", () => {
+  const siblings: TTreeNode[] = [
+    { id: "a", name: "report.txt", type: "file" },
+    { id: "b", name: "Report copy.txt", type: "file" },
+  ];
+  assertEqual(getCopyName("notes.txt", siblings), "notes.txt");
+  assertEqual(getCopyName("report.txt", siblings), "report copy 2.txt");
+  assertEqual(getCopyName(".env", [{ id: "c", name: ".env", type: "file" }]), ".env copy");
+});
+
+test("getRowDropTarget splits files 50/50 and folders into three zones", () => {
+  const { root } = buildInternalTree(createTree());
+  const items = flattenVisibleItems(root, { docs: true });
+  // src, index.ts, utils.ts, docs, package.json
+  const [src, index, , docs] = items;
+
+  assertEqual(getRowDropTarget(index, 0.4, {}).dropIntent, "above");
+  assertEqual(getRowDropTarget(index, 0.6, {}).childIndex, 1);
+  assertEqual(getRowDropTarget(docs, 0.1, { docs: true }).dropIntent, "above");
+  assertEqual(getRowDropTarget(docs, 0.5, { docs: true }).dropIntent, "inside");
+  assertEqual(getRowDropTarget(docs, 0.9, { docs: true }).dropIntent, "below");
+
+  // Expanded with children: no "below" - the first child covers it
+  const bottomOfSrc = getRowDropTarget(src, 0.9, {});
+  assertEqual([bottomOfSrc.dropIntent, bottomOfSrc.index], ["inside", 1]);
+});
+
+test("getRowDropTarget respects canHaveChildren and sorted trees", () => {
+  const { root } = buildInternalTree(createTree());
+  const items = flattenVisibleItems(root, { docs: true });
+  const [, index, , docs] = items;
+
+  const refused = getRowDropTarget(docs, 0.4, { docs: true }, {
+    canHaveChildren: (node) => node.id !== "docs",
+  });
+  assertEqual(refused.dropIntent, "above");
+
+  // Sorted: a file means its folder, appended at the end
+  const sorted = getRowDropTarget(index, 0.1, {}, { sorted: true });
+  assertEqual(
+    [sorted.parent?.item.id, sorted.dropIntent, sorted.childIndex],
+    ["src", "inside", 2]
+  );
+});
+
+test("filterTree shows matches and their folders", () => {
+  const { root } = buildInternalTree(createTree());
+  const result = filterTree(root, { type: "substring", query: "read" });
+
+  assertEqual([...result.visibleIds].sort(), ["docs", "readme", "root"]);
+  assertEqual(result.matches.get("readme"), [0, 1, 2, 3]);
+});
+
+test("flattenVisibleItems counts only the siblings the filter shows", () => {
+  const { root } = buildInternalTree(createTree());
+  const { visibleIds } = filterTree(root, { type: "substring", query: "utils" });
+  const items = flattenVisibleItems(root, {}, visibleIds);
+
+  assertEqual(
+    items.map((item) => [item.node.item.id, item.posInSet, item.setSize]),
+    [
+      ["src", 1, 1],
+      ["utils", 1, 1],
+    ]
+  );
+});
+
+test("getSortComparator sorts naturally, folders first", () => {
+  const nodes: TTreeNode[] = [
+    { id: "1", name: "file 10", type: "file" },
+    { id: "2", name: "File 2", type: "file" },
+    { id: "3", name: "zeta", type: "directory", children: [] },
+  ];
+  const names = (mode: Parameters<typeof getSortComparator>[0]) =>
+    [...nodes].sort(getSortComparator(mode)!).map((node) => node.name);
+
+  assertEqual(names("name-asc"), ["File 2", "file 10", "zeta"]);
+  assertEqual(names("name-desc"), ["zeta", "file 10", "File 2"]);
+  assertEqual(names("folders-first"), ["zeta", "File 2", "file 10"]);
+  assertEqual(getSortComparator("manual"), null);
+});
+
+test("getRangeIds works in either direction and needs both ends visible", () => {
+  const { root } = buildInternalTree(createTree());
+  const items = flattenVisibleItems(root, {});
+  const indexById = indexSelectableItems(items);
+
+  assertEqual(getRangeIds(items, indexById, "readme", "utils"), ["utils", "docs", "readme"]);
+  assertEqual(getRangeIds(items, indexById, "docs", "nope"), null);
+});
+
+// =============================================================================
+// KEYBOARD DRAG
+// =============================================================================
+
+test("getKeyboardDropPositions de-duplicates and skips moves into self", () => {
+  const { root } = buildInternalTree(createTree());
+  const items = flattenVisibleItems(root, { src: true });
+  const positions = getKeyboardDropPositions(root, items, { src: true }, ["docs"]);
+
+  const keys = positions.map((p) => `${p.parentId}:${p.childIndex}`);
+  assertEqual(new Set(keys).size, keys.length, "duplicate positions");
+  assert(!keys.some((key) => key.startsWith("docs:")), "offered a move into docs");
+});
+
+test("getKeyboardDropPositions only offers folders while sorted", () => {
+  const { root } = buildInternalTree(createTree());
+  const items = flattenVisibleItems(root, {});
+  const positions = getKeyboardDropPositions(root, items, {}, ["package"], "move", {
+    sorted: true,
+  });
+
+  assertEqual(
+    positions.map((p) => [p.parentId, p.dropIntent]),
+    [
+      ["root", "inside"],
+      ["src", "inside"],
+      ["docs", "inside"],
+    ]
+  );
+});
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+test("collapseByDefault keeps unloaded folders closed while filtering", () => {
+  const store = createTreeStore("test", { collapsed: { docs: false } });
+  const { collapseByDefault, setFilterActive, springOpen } = store.getState();
+
+  collapseByDefault(["docs", "remote"]);
+  setFilterActive(true);
+  collapseByDefault(["docs", "remote"]);
+  assertEqual(selectCollapsed(store.getState()), { docs: false, remote: true });
+
+  springOpen("src");
+  assertEqual(selectCollapsed(store.getState()).remote, true);
+
+  assertEqual(store.getState().collapsed, { docs: false, remote: true }, "collapsed");
+});
+
+// =============================================================================
+// PERSISTENCE
+// =============================================================================
+
+test("saved state comes back without stale ids or expanded folders", () => {
+  const storage = createMemoryStorage();
+  const options = { id: "test", storage };
+  const tree = createTree();
+  const state: PersistedTreeState = {
+    collapsed: { src: true, docs: false, gone: true },
+    selectedIds: ["index", "gone"],
+    anchorId: "gone",
+    scrollTop: 40,
+  };
+
+  saveTreeState(options, state, tree);
+  assertEqual(loadTreeState(options, tree), {
+    collapsed: { src: true },
+    selectedIds: ["index"],
+    anchorId: null,
+    scrollTop: 40,
+  });
+});
+
+test("saved state keeps expanded lazy folders and ids they may not have loaded", () => {
+  const storage = createMemoryStorage();
+  const options = { id: "test", storage };
+  const tree = createTree();
+  tree.children.push(
+    { id: "remote", name: "remote", type: "directory", lazy: true },
+    { id: "cloud", name: "cloud", type: "directory", lazy: true, children: [] }
+  );
+  const state: PersistedTreeState = {
+    collapsed: { docs: false, remote: false, cloud: false, deep: false },
+    selectedIds: ["deep"],
+    anchorId: "deep",
+    scrollTop: 0,
+  };
+
+  saveTreeState(options, state, tree);
+  assertEqual(loadTreeState(options, tree), {
+    collapsed: { remote: false, cloud: false, deep: false },
+    selectedIds: ["deep"],
+    anchorId: "deep",
+    scrollTop: 0,
+  });
+
+  // Once everything has loaded, unknown ids are stale again
+  tree.children = tree.children.filter((child) => child.id !== "remote");
+  assertEqual(loadTreeState(options, tree)?.selectedIds, []);
+});
+
+// =============================================================================
+// RUN
+// =============================================================================
+
+let failed = 0;
+for (const { name, run } of tests) {
+  try {
+    run();
+    console.log(`  ✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${name}\n      ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+console.log(`\n${tests.length - failed} passed, ${failed} failed`);
+if (failed > 0) {
+  throw new Error(`${failed} of ${tests.length} tests failed`);
+}
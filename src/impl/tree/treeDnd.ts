@@ -0,0 +1,230 @@
+import { createContext, useContext } from "react";
+import {
+  useDroppable,
+  type Announcements,
+  type DragEndEvent,
+  type DragMoveEvent,
+  type DragStartEvent,
+  type KeyboardCoordinateGetter,
+} from "@dnd-kit/core";
+import type {
+  DragOperation,
+  TransferSource,
+  TransferTarget,
+  TreeTransferPayload,
+} from "./types";
+
+// =============================================================================
+// SHARED DRAG CONTEXT
+// =============================================================================
+//
+// dnd-kit only lets a draggable drop onto droppables inside the SAME
+// <DndContext>. So the DndContext doesn't live inside Tree - it lives in
+// TreeDndProvider, which can wrap more than one tree:
+//
+//   <TreeDndProvider>
+//     <Tree data={data} onExternalDrop={openTabs} />
+//     <TabBar />          ← uses useTreeDropZone("tab-bar")
+//   </TreeDndProvider>
+//
+// A Tree that isn't inside a provider wraps itself in one, so the simple
+// case needs no setup at all.
+//
+// WHO HANDLES WHAT?
+//   The provider owns the DndContext, the sensors and the drag overlay.
+//   Each tree registers a TreeDndParticipant; the provider forwards every
+//   drag event to the tree the dragged row belongs to (the "owner"), found
+//   through the treeId in the row's draggable data.
+//
+//   Moves go to EVERY tree, so the one under the pointer can draw its
+//   drop marker for a row dragged out of another tree (see TRANSFERS).
+//
+// COPY OR MOVE?
+//   Holding Alt/Option turns a drag into a copy - at any point during the
+//   drag, not just at the start. The provider watches the key (it draws
+//   the ghost's "+" badge) and trees ask it through getDragOperation.
+//   Toggling it re-runs the last move, since what's a valid target
+//   depends on it.
+//
+// =============================================================================
+
+/** What a tree registers with the provider */
+export interface TreeDndParticipant {
+  onDragStart: (event: DragStartEvent) => void;
+
+  /** Also called for onDragOver (the target can change without a move) */
+  onDragMove: (event: DragMoveEvent) => void;
+
+  onDragEnd: (event: DragEndEvent) => void;
+
+  /** Also called on every OTHER tree when a drag ends, to clear its marker */
+  onDragCancel: () => void;
+
+  /** Where a keyboard drag goes next (see keyboardDrag.ts) */
+  getKeyboardCoordinates: KeyboardCoordinateGetter;
+
+  announcements: Announcements;
+
+  /** The tree's accessible name, for announcing transfers into it */
+  label: string;
+
+  /** "into refunds at position 2", or null without a drop target */
+  describeDropTarget: () => string | null;
+
+  /** Whether the current drop target is one the tree's rules refuse */
+  isDropRejected: () => boolean;
+
+  /** The transfer a drop on this tree would make, or null if it's not allowed */
+  getTransfer: () => TreeTransferPayload | null;
+}
+
+/** The drag in progress, as seen from outside the tree that started it */
+export type ActiveTreeDrag = TransferSource;
+
+export interface TreeDndContextValue {
+  /** Register a tree; returns the unregister function */
+  register: (
+    treeId: string,
+    participant: React.RefObject<TreeDndParticipant | null>
+  ) => () => void;
+
+  /** Called by the owner tree when a drag starts (items) and ends (null) */
+  setActiveDrag: (drag: ActiveTreeDrag | null) => void;
+
+  /** "copy" while Alt/Option is held during the drag, "move" otherwise */
+  getDragOperation: () => DragOperation;
+
+  /**
+   * The transfer of the active drag to `target`, or null when the
+   * provider doesn't allow it (see TRANSFERS).
+   */
+  resolveTransfer: (target: TransferTarget) => TreeTransferPayload | null;
+}
+
+export const TreeDndContext = createContext<TreeDndContextValue | null>(null);
+
+export const ActiveTreeDragContext = createContext<ActiveTreeDrag | null>(null);
+
+/** The enclosing provider (Tree always has one - it adds its own if needed) */
+export function useTreeDnd(): TreeDndContextValue {
+  const dnd = useContext(TreeDndContext);
+  if (!dnd) {
+    throw new Error("useTreeDnd must be used inside a <TreeDndProvider>");
+  }
+  return dnd;
+}
+
+// =============================================================================
+// DROPPABLE DATA
+// =============================================================================
+//
+// Every draggable and droppable a tree renders (rows, catch zones) carries
+// its treeId, so a drag handler can tell "over one of my rows" from "over
+// another tree's row" from "over something else".
+//
+// Two trees may well contain the same item ids, but dnd-kit ids must be
+// unique across the whole DndContext - so rows register under
+// getDndId(treeId, itemId) and carry the plain item id as data.itemId.
+//
+// =============================================================================
+
+export function getDndId(treeId: string, itemId: string): string {
+  return `${treeId}/${itemId}`;
+}
+
+/** The item id of a row's draggable/droppable data (null for other droppables) */
+export function getItemId(data: Record<string, unknown> | undefined): string | null {
+  return typeof data?.itemId === "string" ? data.itemId : null;
+}
+
+/** Any tree's row or catch zone - as opposed to an external drop zone */
+export function isTreeDroppable(
+  data: Record<string, unknown> | undefined
+): data is Record<string, unknown> & { treeId: string } {
+  return typeof data?.treeId === "string";
+}
+
+export function isOwnDroppable(
+  data: Record<string, unknown> | undefined,
+  treeId: string
+): boolean {
+  return data?.treeId === treeId;
+}
+
+// =============================================================================
+// TRANSFERS
+// =============================================================================
+//
+// Dropping a row on ANOTHER tree in the same provider transfers it:
+//
+//   <TreeDndProvider onTransfer={applyTransfer} transferOperation="copy">
+//     <Tree id="personal" data={personal} />
+//     <Tree id="team" data={team} />
+//   </TreeDndProvider>
+//
+// The tree under the pointer computes the target the same way it does for
+// its own rows, then both sides get a say before a marker is shown:
+//
+//   1. The provider (resolveTransfer) - transfers are off without an
+//      onTransfer, and its canTransfer sees the whole payload, both tree
+//      ids included
+//   2. The target tree - the names must pass ITS validateName among the
+//      target folder's children, and a move can't bring ids it already has
+//
+// On drop, the provider asks the target tree for the payload (getTransfer)
+// and hands it to onTransfer. The source tree only clears its drag state.
+//
+// Keyboard drags stay inside the tree they started in.
+//
+// =============================================================================
+
+// =============================================================================
+// EXTERNAL DROP ZONES
+// =============================================================================
+//
+// For anything outside a tree that should accept dragged items - a tab
+// bar, a "run collection" panel. Must be rendered inside the same
+// TreeDndProvider as the tree:
+//
+//   function RunPanel() {
+//     const { setNodeRef, isOver, items } = useTreeDropZone("run-panel", {
+//       label: "Run collection",
+//     });
+//     return <div ref={setNodeRef} className={isOver ? "ring-2" : ""}>...</div>;
+//   }
+//
+// The drop itself is reported by the tree the items came from, through its
+// onExternalDrop(items, targetId) - targetId is the id given here.
+//
+// =============================================================================
+
+interface TreeDropZoneOptions {
+  /** Read to screen readers while hovering ("Dropping 2 items on Run collection") */
+  label?: string;
+
+  /** Stop accepting drops */
+  disabled?: boolean;
+}
+
+export function useTreeDropZone(
+  id: string,
+  { label, disabled = false }: TreeDropZoneOptions = {}
+) {
+  const drag = useContext(ActiveTreeDragContext);
+
+  const { setNodeRef, isOver } = useDroppable({
+    id,
+    data: { type: "external", label: label ?? id },
+    disabled,
+  });
+
+  return {
+    setNodeRef,
+
+    /** A tree drag is hovering this zone */
+    isOver: isOver && drag !== null,
+
+    /** What's being dragged anywhere (empty when nothing is) */
+    items: drag?.items ?? [],
+  };
+}
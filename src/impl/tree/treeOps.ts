@@ -0,0 +1,296 @@
+import type { TTree, TTreeNode } from "../../types";
+import type { DragEndPayload } from "./types";
+
+// =============================================================================
+// TREE OPERATIONS
+// =============================================================================
+//
+// Every read and write on the consumer's TTree data lives here.
+// (InternalTreeNode helpers - parents, depths, flat lists - are in utils.ts.)
+//
+// All writes are PURE: they return a new tree and never touch the old one.
+// And they share structure - only the nodes on the path to a change are
+// copied; everything else is the SAME object as before:
+//
+//   renameNode(tree, "cancel", "abort")
+//
+//        root*                   * = new object
+//       /     \                  (everything else reused)
+//   txns*     refunds
+//    /    \       \
+//  init  cancel*  full
+//
+// Why that matters:
+//   - No structuredClone of the whole tree on every drop
+//   - A memoized component that receives an unchanged subtree gets the SAME
+//     reference, so it can skip re-rendering
+//   - Undo history can keep old versions around cheaply
+//
+// Every write returns the input tree itself when there was nothing to do
+// (unknown id, missing parent), so `next === tree` means "no change".
+//
+// =============================================================================
+
+// =============================================================================
+// READS
+// =============================================================================
+
+/**
+ * Find a node by ID (the root included - a TTree is also a valid TTreeNode).
+ */
+export function findNode(root: TTreeNode, id: string): TTreeNode | null {
+  if (root.id === id) {
+    return root;
+  }
+
+  if (root.children) {
+    for (const child of root.children) {
+      const found = findNode(child, id);
+      if (found) return found;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the folder a node lives in, and its position there.
+ * Returns null for the root and for unknown IDs.
+ */
+export function findParentOf(
+  root: TTreeNode,
+  id: string
+): { parent: TTreeNode; childIndex: number } | null {
+  if (!root.children) return null;
+
+  const index = root.children.findIndex((child) => child.id === id);
+  if (index !== -1) {
+    return { parent: root, childIndex: index };
+  }
+
+  for (const child of root.children) {
+    const found = findParentOf(child, id);
+    if (found) return found;
+  }
+
+  return null;
+}
+
+// =============================================================================
+// INSERT
+// =============================================================================
+
+/**
+ * Insert a node into a folder at the given child index.
+ */
+export function insertNode(
+  tree: TTree,
+  parentId: string,
+  index: number,
+  node: TTreeNode
+): TTree {
+  return insertNodes(tree, parentId, index, [node]);
+}
+
+/**
+ * Insert several nodes into a folder, in order, starting at the given
+ * child index.
+ */
+export function insertNodes(
+  tree: TTree,
+  parentId: string,
+  index: number,
+  nodes: TTreeNode[]
+): TTree {
+  return updateNode(tree, parentId, (parent) => {
+    const children = [...(parent.children ?? [])];
+    children.splice(index, 0, ...nodes);
+    return { ...parent, children };
+  });
+}
+
+// =============================================================================
+// REMOVE
+// =============================================================================
+//
+// Removing a folder removes everything inside it, so IDs that are
+// descendants of another removed ID are simply never reached.
+// The root can't be removed.
+//
+// =============================================================================
+
+export function removeNodes(tree: TTree, ids: string[]): TTree {
+  if (ids.length === 0) return tree;
+  return removeFrom(tree, new Set(ids));
+}
+
+// =============================================================================
+// RENAME
+// =============================================================================
+
+export function renameNode(tree: TTree, id: string, name: string): TTree {
+  return updateNode(tree, id, (node) =>
+    node.name === name ? node : { ...node, name }
+  );
+}
+
+// =============================================================================
+// SET CHILDREN
+// =============================================================================
+//
+// Replaces a folder's children - e.g. with what a lazy folder loaded (see
+// Tree's onChildrenLoaded), so they're part of the data from then on.
+//
+// =============================================================================
+
+export function setChildren(tree: TTree, id: string, children: TTreeNode[]): TTree {
+  return updateNode(tree, id, (node) =>
+    node.children === children ? node : { ...node, children }
+  );
+}
+
+// =============================================================================
+// MOVE
+// =============================================================================
+//
+// Applies Tree's DragEndPayload:
+//   1. Remove the items from their current locations
+//   2. Insert them into the target parent at insertAt
+//
+// insertAt is an index into the parent's children WITHOUT the moved items
+// (that's how Tree computes it), which is why removal comes first.
+//
+// The nodes are looked up in `tree` rather than taken from the payload, so
+// a payload built against a slightly older version still moves the
+// current subtrees.
+//
+// =============================================================================
+
+export function moveNodes(
+  tree: TTree,
+  { items, parent, insertAt }: DragEndPayload
+): TTree {
+  const found = items
+    .map((item) => findNode(tree, item.id))
+    .filter((node): node is TTreeNode => node !== null && node !== tree);
+
+  // A folder moves its contents along - don't ALSO move them separately
+  const nodes = found.filter(
+    (node) => !found.some((other) => other !== node && findNode(other, node.id))
+  );
+
+  if (nodes.length === 0) return tree;
+
+  // Can't move a folder into itself or one of its descendants
+  if (nodes.some((node) => findNode(node, parent.id))) return tree;
+
+  const removed = removeNodes(tree, nodes.map((node) => node.id));
+  const next = insertNodes(removed, parent.id, insertAt, nodes);
+
+  // Target parent missing - abort the whole move, not just the insert
+  return next === removed ? tree : next;
+}
+
+// =============================================================================
+// DUPLICATE
+// =============================================================================
+//
+// Inserts a deep copy of each node right after the original. Every node in
+// the copy gets a fresh ID from `createId`.
+//
+// Pass topmost IDs only (see getTopmostNodes) - duplicating a folder AND
+// one of its children duplicates that child twice.
+//
+// =============================================================================
+
+export function duplicateNodes(
+  tree: TTree,
+  ids: string[],
+  createId: () => string = () => crypto.randomUUID()
+): TTree {
+  let next = tree;
+
+  for (const id of ids) {
+    const node = findNode(next, id);
+    const location = findParentOf(next, id);
+    if (!node || !location) continue;
+
+    next = insertNodes(next, location.parent.id, location.childIndex + 1, [
+      copyWithNewIds(node, createId),
+    ]);
+  }
+
+  return next;
+}
+
+/**
+ * Deep copy of a node in which every node gets a fresh ID from `createId`.
+ * (Copies may live next to the original, so they can't share its IDs.)
+ */
+export function copyWithNewIds(
+  node: TTreeNode,
+  createId: () => string = () => crypto.randomUUID()
+): TTreeNode {
+  return {
+    ...node,
+    id: createId(),
+    ...(node.children
+      ? { children: node.children.map((child) => copyWithNewIds(child, createId)) }
+      : {}),
+  };
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+/**
+ * Replace the node with the given ID by `update(node)`, copying only the
+ * nodes on the path down to it. Returns `node` itself if the ID isn't found
+ * or `update` returned the node unchanged.
+ */
+function updateNode<T extends TTreeNode>(
+  node: T,
+  id: string,
+  update: (node: TTreeNode) => TTreeNode
+): T {
+  if (node.id === id) {
+    return update(node) as T;
+  }
+
+  if (!node.children) return node;
+
+  for (let i = 0; i < node.children.length; i++) {
+    const child = node.children[i];
+    const next = updateNode(child, id, update);
+
+    // IDs are unique - the first changed child is the only one
+    if (next !== child) {
+      const children = [...node.children];
+      children[i] = next;
+      return { ...node, children };
+    }
+  }
+
+  return node;
+}
+
+function removeFrom<T extends TTreeNode>(node: T, ids: Set<string>): T {
+  if (!node.children) return node;
+
+  let changed = false;
+  const children: TTreeNode[] = [];
+
+  for (const child of node.children) {
+    if (ids.has(child.id)) {
+      changed = true;
+      continue;
+    }
+
+    const next = removeFrom(child, ids);
+    if (next !== child) changed = true;
+    children.push(next);
+  }
+
+  return changed ? { ...node, children } : node;
+}
@@ -1,4 +1,4 @@
-import type { TTreeNode } from "../../types";
+import type { TreeNodeType, TTree, TTreeNode } from "../../types";
 
 // =============================================================================
 // INTERNAL TREE NODE
@@ -48,6 +48,22 @@ export interface InternalTreeNode {
    * - Indenting drop markers to correct level
    */
   depth: number;
+
+  /**
+   * Position in parent.children (0 for the root).
+   * Cached when the tree is built, so drop math doesn't have to search
+   * the siblings on every pointer move.
+   */
+  childIndex: number;
+}
+
+/**
+ * The result of buildInternalTree: the root plus an id → node index,
+ * so any node can be found in O(1) instead of walking the tree.
+ */
+export interface InternalTree {
+  root: InternalTreeNode;
+  nodesById: Map<string, InternalTreeNode>;
 }
 
 // =============================================================================
@@ -87,8 +103,108 @@ export interface SelectableTreeNode {
    * Used for: navigation, range selection, drop marker positioning.
    */
   index: number;
+
+  /**
+   * 1-based position among its siblings AS SHOWN - the same as
+   * getChildIndex + 1 unless a sortMode reorders them (see SORTING) or
+   * the filter hides some of them (see FILTER).
+   */
+  posInSet: number;
+
+  /** How many of those siblings are shown - what aria-setsize reports */
+  setSize: number;
 }
 
+// =============================================================================
+// FILTER
+// =============================================================================
+//
+// Narrows the flat list to the items that match, plus the folders on the
+// way to them (see filterTree in utils.ts):
+//
+//   { type: "substring", query: "ref" }    "refunds"       (anywhere, any case)
+//   { type: "fuzzy", query: "rfd" }        "ReFunDs"       (in order, gaps ok)
+//   { type: "predicate", test: isStale }   whatever test accepts
+//
+// An empty query means no filter.
+//
+// =============================================================================
+
+export type TreeFilter =
+  | { type: "substring"; query: string }
+  | { type: "fuzzy"; query: string }
+  | { type: "predicate"; test: (item: TTreeNode) => boolean };
+
+export interface TreeFilterResult {
+  /**
+   * Matching item id → indices of the matched characters in its name
+   * (empty for predicate matches - there's nothing to highlight)
+   */
+  matches: Map<string, number[]>;
+
+  /** The matches plus all their ancestors - everything the filter shows */
+  visibleIds: Set<string>;
+}
+
+// =============================================================================
+// SORTING
+// =============================================================================
+//
+// By default rows show in `children` order, and drops go exactly where the
+// marker is. A sortMode orders every folder's rows instead:
+//
+//   "manual"          children order (the default)
+//   "name-asc"        A → Z   (natural: "file 2" before "file 10")
+//   "name-desc"       Z → A
+//   "folders-first"   folders A → Z, then files A → Z
+//   (a, b) => …       your own comparator
+//
+// Only the DISPLAY is sorted (see flattenVisibleItems) - the data keeps
+// its order. So while sorted, a position between two siblings means
+// nothing: drops only go INTO a folder (its ring lights up; over a file,
+// its folder's does), and payloads say `ordering: "sorted"` - insertAt
+// then just appends, and the consumer may store the items anywhere.
+//
+// =============================================================================
+
+export type TreeSortComparator = (a: TTreeNode, b: TTreeNode) => number;
+
+export type TreeSortMode =
+  | "manual"
+  | "name-asc"
+  | "name-desc"
+  | "folders-first"
+  | TreeSortComparator;
+
+/**
+ * How a payload's insertAt was chosen: where the user dropped ("manual"),
+ * or just at the end because a sortMode decides the order ("sorted").
+ */
+export type DropOrdering = "manual" | "sorted";
+
+// =============================================================================
+// LAZY CHILDREN
+// =============================================================================
+//
+// A folder can leave its children to be fetched when it's first opened:
+//
+//   { id: "orders", type: "directory", lazy: true }   ← no children yet
+//
+// Tree then calls its loadChildren(node) and tracks the request per folder
+// in the store (see useLazyChildren.ts):
+//
+//   loading → loaded   the children are cached and shown from then on
+//          ↘ error    a retry row takes the place of the children
+//
+// =============================================================================
+
+export type ChildrenLoader = (node: TTreeNode) => Promise<TTreeNode[]>;
+
+export type ChildrenLoad =
+  | { status: "loading" }
+  | { status: "error"; error: unknown }
+  | { status: "loaded"; children: TTreeNode[] };
+
 // =============================================================================
 // HOVERED PARENT (DROP TARGET)
 // =============================================================================
@@ -163,6 +279,54 @@ export interface HoveredParent {
    *   - Bottom 25%: "below" → show drop line below folder
    */
   dropIntent: "above" | "below" | "inside" | null;
+
+  /**
+   * The target exists, but a drop there isn't allowed (canDrop said no,
+   * or a folder would move into itself). The marker and ring turn red
+   * and the drop does nothing - see DRAG AND DROP RULES.
+   */
+  rejected: boolean;
+}
+
+// =============================================================================
+// DRAG AND DROP RULES
+// =============================================================================
+//
+// Beyond "a folder can't move into itself", what may be dragged and where
+// it may go is up to the consumer, through three props on Tree:
+//
+//   canDrag={(node) => node.id !== readme.id}           pin an item
+//   canHaveChildren={(node) => !node.name.endsWith(".app")}
+//                                                        keep a folder shut
+//   canDrop={({ items, parent }) =>                      folders only at
+//     parent.id !== root.id ||                           the top level
+//     items.every((item) => item.type === "directory")}
+//
+// canHaveChildren takes away a folder's "inside" zone - it then behaves
+// like a file. canDrop is asked for every target the pointer (or a
+// keyboard step) reaches; a target it rejects is still shown, in red with
+// a "not allowed" ghost, so the user can see WHY nothing would happen.
+// Keyboard drags skip rejected targets altogether.
+//
+// Paste follows the same rules as a drop, and cut leaves out items that
+// can't be dragged.
+//
+// =============================================================================
+
+export interface ProposedDrop {
+  /** The dragged items (a folder's selected descendants are left out) */
+  items: TTreeNode[];
+
+  /** The folder they'd go into */
+  parent: TTreeNode;
+
+  /**
+   * Position among parent's CURRENT children - the dragged items may
+   * still be among them
+   */
+  insertAt: number;
+
+  operation: DragOperation;
 }
 
 // =============================================================================
@@ -182,26 +346,401 @@ export interface HoveredParent {
 //   - parent: where it's going
 //   - children: current children of target (so you can splice)
 //   - insertAt: position to insert
+//   - operation: "move", or "copy" when Alt/Option was held on drop
+//   - ordering: "sorted" if the tree sorts its rows - insertAt is then
+//     simply the end (see SORTING)
+//
+// A COPY leaves the originals where they are, so for copies nothing is
+// pre-removed from children, insertAt isn't adjusted, and a folder may
+// even be copied into itself or one of its descendants. The consumer
+// inserts deep copies with fresh ids (see copyCommand).
 // =============================================================================
 
+/** What a drop does with the dragged items */
+export type DragOperation = "move" | "copy";
+
 export interface DragEndPayload {
-  /** The items being moved (in drag order) */
+  /** The items being moved or copied (in drag order) */
   items: TTreeNode[];
 
   /** The target parent folder */
   parent: TTreeNode;
 
   /**
-   * Current children of target parent, EXCLUDING the dragged items.
-   * (We pre-remove them so you don't have to handle duplicates)
+   * Current children of target parent - for a move EXCLUDING the dragged
+   * items. (We pre-remove them so you don't have to handle duplicates)
    */
   children: TTreeNode[];
 
   /**
    * Index to insert at within parent.children.
-   * Already adjusted for any removed items.
+   * For a move, already adjusted for any removed items.
    *
    * Usage: parent.children.splice(insertAt, 0, ...items)
    */
   insertAt: number;
+
+  operation: DragOperation;
+
+  ordering: DropOrdering;
+}
+
+// =============================================================================
+// TRANSFER PAYLOAD
+// =============================================================================
+//
+// DragEndPayload's counterpart for a drop onto ANOTHER tree sharing the
+// same TreeDndProvider. Neither tree changes anything itself - the
+// provider's onTransfer gets both ends of the transfer:
+//
+//   {
+//     operation: "move",
+//     source: { treeId: "personal", items: [draft], parents: [root] },
+//     target: { treeId: "team", parent: shared, children: [...], insertAt: 1 },
+//   }
+//
+// For a "move" the consumer removes the items from the source tree's data
+// and inserts them into the target's; for a "copy" only the insert
+// happens, usually with fresh ids (see transferInCommand). Holding
+// Alt/Option always copies; otherwise the provider's transferOperation
+// decides.
+//
+// =============================================================================
+
+export interface TransferSource {
+  /** The tree the items are dragged out of */
+  treeId: string;
+
+  /** The dragged items (topmost only - a folder brings its contents) */
+  items: TTreeNode[];
+
+  /** The folder each item currently lives in (same order as items) */
+  parents: TTreeNode[];
+}
+
+export interface TransferTarget {
+  /** The tree the items are dropped into */
+  treeId: string;
+
+  /** The target folder, in the target tree */
+  parent: TTreeNode;
+
+  /** Current children of the target folder */
+  children: TTreeNode[];
+
+  /** Index within parent.children to insert at */
+  insertAt: number;
+
+  /** "sorted" if the target tree sorts its rows (insertAt is the end) */
+  ordering: DropOrdering;
+}
+
+export interface TreeTransferPayload {
+  operation: DragOperation;
+  source: TransferSource;
+  target: TransferTarget;
+}
+
+// =============================================================================
+// CLIPBOARD
+// =============================================================================
+//
+// Cmd/Ctrl+X and Cmd/Ctrl+C put the selection on the tree's clipboard;
+// Cmd/Ctrl+V pastes it next to (or into) the focused item - see
+// useTreeClipboard.ts:
+//
+//   cut   → { operation: "move", items }   the items move on paste
+//   copy  → { operation: "copy", items }   deep copies are inserted
+//
+// Like a drop, a paste doesn't change the tree - it emits a PastePayload
+// with the same fields as DragEndPayload, so moveCommand / copyCommand
+// apply it as they are.
+//
+// =============================================================================
+
+export interface TreeClipboard {
+  /**
+   * Identifies this cut/copy. The system clipboard gets the same key, so a
+   * paste can tell "our own cut" from JSON copied in another tab.
+   */
+  key: string;
+
+  operation: DragOperation;
+
+  /** Topmost items only (a folder brings its contents) */
+  items: TTreeNode[];
+}
+
+/**
+ * Where pasted items go. For a "move" (cut + paste) children excludes the
+ * items and insertAt is adjusted, exactly like a drop.
+ */
+export type PastePayload = DragEndPayload;
+
+// =============================================================================
+// CREATE PAYLOAD
+// =============================================================================
+//
+// The "New file" / "New folder" counterpart of DragEndPayload.
+//
+// Creating works in two steps:
+//   1. The tree shows a PLACEHOLDER row (see PendingCreate) in rename mode.
+//      Nothing is emitted yet - the consumer's data is untouched.
+//   2. The user types a name and presses Enter → we emit this payload.
+//      (Escape or an invalid blur just removes the placeholder.)
+//
+// Like moves, the tree doesn't create the node itself - the consumer picks
+// an id, maybe calls an API, then splices it in:
+//
+//   parent.children.splice(insertAt, 0, { id: uuid(), name, type })
+// =============================================================================
+
+export interface CreatePayload {
+  /** The folder the new item goes into */
+  parent: TTreeNode;
+
+  /** Index within parent.children to insert at */
+  insertAt: number;
+
+  /** "file" or "directory" */
+  type: TreeNodeType;
+
+  /** The validated, trimmed name the user typed */
+  name: string;
+}
+
+/**
+ * An in-progress create (the placeholder row).
+ * Lives in the store while the user is typing the name.
+ */
+export interface PendingCreate {
+  /** Folder the placeholder is shown in */
+  parentId: string;
+
+  /** Position within that folder's children */
+  insertAt: number;
+
+  /** What kind of item is being created */
+  type: TreeNodeType;
+
+  /** Item to give focus back to when creating finishes */
+  returnFocusId: string | null;
+}
+
+// =============================================================================
+// DELETE PAYLOAD
+// =============================================================================
+//
+// Emitted when the user presses Delete/Backspace on a selection.
+//
+// The selection is DE-DUPLICATED by ancestry first. If both a folder and
+// something inside it are selected, only the folder is reported - deleting
+// it removes the child anyway, and reporting both would make the consumer
+// try to delete an item that's already gone:
+//
+//   selected: [refunds, initiate refund, webhook]
+//   payload:  { items: [refunds, webhook], parents: [root, root] }
+//
+// `parents[i]` is the folder `items[i]` is being deleted from, so the
+// consumer can splice without searching the tree.
+// =============================================================================
+
+export interface DeletePayload {
+  /** Items to delete, in tree order, with descendants of other items removed */
+  items: TTreeNode[];
+
+  /** The folder each item currently lives in (same order as items) */
+  parents: TTreeNode[];
+}
+
+// =============================================================================
+// EXTERNAL FILES DROP PAYLOAD
+// =============================================================================
+//
+// Files and folders dragged in from the operating system (Finder, Explorer,
+// the desktop). They drop with the same markers as items dragged within
+// the tree, and the tree emits what was dropped and where:
+//
+//   onExternalFilesDrop({
+//     files: [
+//       { type: "file", name: "notes.md", file: File },
+//       { type: "directory", name: "assets", children: [
+//         { type: "file", name: "logo.svg", file: File },
+//       ] },
+//     ],
+//     parent: src,
+//     insertAt: 2,
+//   })
+//
+// Folders come with everything inside them, read through the browser's
+// File System Entries API (see fileEntries.ts). Without it only plain
+// files come through.
+//
+// Like the other payloads this changes nothing by itself - the consumer
+// uploads or reads the files and adds nodes for them, with ids of its
+// choosing.
+// =============================================================================
+
+export type DroppedEntry =
+  | { type: "file"; name: string; file: File }
+  | { type: "directory"; name: string; children: DroppedEntry[] };
+
+export interface ExternalFilesDropPayload {
+  /** What was dropped, in the order the browser reported it */
+  files: DroppedEntry[];
+
+  /** The folder they were dropped into */
+  parent: TTreeNode;
+
+  /** Position among parent's current children */
+  insertAt: number;
+
+  /** "sorted" if the tree sorts its rows (insertAt is the end) */
+  ordering: DropOrdering;
+}
+
+// =============================================================================
+// CONTEXT MENU MODEL
+// =============================================================================
+//
+// The tree doesn't hard-code any right-click actions. Instead the consumer
+// passes a `contextMenu` function that DESCRIBES the menu for a given row:
+//
+//   contextMenu(node, selection, actions) → [
+//     { type: "item", label: "Rename", shortcut: "F2", onSelect: () => actions.rename(node.item.id) },
+//     { type: "separator" },
+//     { type: "item", label: "Copy", submenu: [ ... ] },
+//     { type: "item", label: "Delete", disabled: node.depth === 0, onSelect: ... },
+//   ]
+//
+// The tree renders it, handles keyboard navigation, positioning and closing.
+// Returning an empty array leaves the browser's own menu alone.
+// =============================================================================
+
+export interface ContextMenuItem {
+  type: "item";
+
+  /** Text shown in the menu */
+  label: string;
+
+  /** Shortcut hint shown on the right (display only, e.g. "F2") */
+  shortcut?: string;
+
+  /** Greyed out and skipped by keyboard navigation */
+  disabled?: boolean;
+
+  /** Called after the menu closes. Ignored if `submenu` is set. */
+  onSelect?: () => void;
+
+  /** Nested entries, opened with hover or ArrowRight */
+  submenu?: ContextMenuEntry[];
+}
+
+export interface ContextMenuSeparator {
+  type: "separator";
+}
+
+export type ContextMenuEntry = ContextMenuItem | ContextMenuSeparator;
+
+/**
+ * Tree operations a menu can trigger.
+ * (The consumer can't reach the tree's internal state directly.)
+ */
+export interface TreeActions {
+  /** Put an item into inline rename mode */
+  rename: (id: string) => void;
+
+  /** Show a "new file" / "new folder" placeholder next to the focused item */
+  create: (type: TreeNodeType) => void;
+
+  /** Delete the current selection (same as pressing Delete) */
+  deleteSelection: () => void;
+
+  /** Cut the selection (same as Cmd/Ctrl+X) */
+  cut: () => void;
+
+  /** Copy the selection (same as Cmd/Ctrl+C) */
+  copy: () => void;
+
+  /** Paste what the tree last cut or copied (see useTreeClipboard) */
+  paste: () => void;
+}
+
+/** Builds the menu for a right-clicked row */
+export type ContextMenuBuilder = (
+  node: InternalTreeNode,
+  selection: TTreeNode[],
+  actions: TreeActions
+) => ContextMenuEntry[];
+
+// =============================================================================
+// NAME VALIDATION
+// =============================================================================
+//
+// Inline rename asks a validator before committing. The validator gets the
+// proposed name plus enough context to check it against its neighbours:
+//
+//   validateName("refunds", { item, parent, siblings })
+//     → null                               (OK, commit)
+//     → "An item named refunds already…"  (show inline error, keep editing)
+//
+// Consumers can pass their own (e.g. forbid "/" in names) or use the default
+// one from utils.ts, which rejects empty and duplicate sibling names.
+// =============================================================================
+
+export interface NameValidationContext {
+  /** The item being renamed */
+  item: TTreeNode;
+
+  /** The folder the item lives in (null only for the root) */
+  parent: TTreeNode | null;
+
+  /** The other items in the same folder (EXCLUDING the item itself) */
+  siblings: TTreeNode[];
+}
+
+/**
+ * Returns an error message if the name is not allowed, null if it is.
+ * The name is passed already trimmed.
+ */
+export type NameValidator = (
+  name: string,
+  context: NameValidationContext
+) => string | null;
+
+// =============================================================================
+// TREE COMMANDS (UNDO / REDO)
+// =============================================================================
+//
+// Every data change the consumer makes in response to a Tree callback is
+// wrapped in a command object (see commands.ts):
+//
+//   onDragEnd(payload)  → moveCommand / copyCommand(payload)
+//   onRename(item, n)   → renameCommand(item, n)
+//   onCreate(payload)   → createCommand(payload)
+//   onDelete(payload)   → deleteCommand(payload)
+//   onTransfer(payload) → transferOutCommand / transferInCommand(payload)
+//                         (one per tree - each has its own history)
+//
+// useTreeHistory runs the command and records what the tree looked like
+// BEFORE it, so the step can be undone.
+//
+// =============================================================================
+
+export interface TreeCommand {
+  /** Human-readable description, e.g. "Move 3 items" (for Undo/Redo UI) */
+  label: string;
+
+  /**
+   * Commands with the same key, executed in quick succession, merge into
+   * ONE undo step (e.g. a burst of moves of the same selection).
+   * null never merges.
+   */
+  coalesceKey: string | null;
+
+  /**
+   * Produce the new tree. Must not modify `tree`.
+   * Return `tree` itself to signal "nothing changed" (no history entry).
+   */
+  apply: (tree: TTree) => TTree;
 }
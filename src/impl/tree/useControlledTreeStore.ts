@@ -0,0 +1,156 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { createTreeStore, type TreeStoreApi } from "./store";
+import type { PersistedTreeState } from "./persistence";
+
+// =============================================================================
+// USE CONTROLLED TREE STORE HOOK
+// =============================================================================
+//
+// Creates the store for one <Tree> and lets the consumer own parts of it,
+// the same way <input value onChange> / <input defaultValue> work:
+//
+//   UNCONTROLLED (default)
+//     <Tree defaultCollapsed={{ src: true }} />
+//     The tree owns the state; default* only sets where it starts.
+//
+//   CONTROLLED
+//     <Tree collapsed={collapsed} onCollapsedChange={setCollapsed} />
+//     The prop is the source of truth. Whenever it changes, the store is
+//     overwritten with it.
+//
+// Changes made INSIDE the tree (clicks, keys, drags) are applied to the
+// store right away and then reported through on*Change - in both modes.
+// Handlers read the store back mid-event (select, then read the selection),
+// so they can't wait for the consumer's re-render. A consumer that
+// ignores the report keeps its old prop; the store catches up the next
+// time that prop changes.
+//
+// Drag, focus and rename state are always internal - they change on every
+// pointer move and mean nothing outside the tree.
+//
+// RESTORED STATE
+//   State loaded by the persistence layer (see persistence.ts) wins over
+//   the props on mount: the store starts with it (so the first render
+//   already has the right folders open - the saved scroll position depends
+//   on it), and a controlling consumer is handed it through on*Change.
+//
+// =============================================================================
+
+export interface TreeStateOptions {
+  /** Controlled selection (in selection order) */
+  selectedIds?: string[];
+
+  /** Initial selection when uncontrolled */
+  defaultSelectedIds?: string[];
+
+  /** Called whenever the tree changes the selection */
+  onSelectionChange?: (selectedIds: string[]) => void;
+
+  /** Controlled collapse state (folder id → collapsed) */
+  collapsed?: Record<string, boolean>;
+
+  /** Initial collapse state when uncontrolled (default: everything expanded) */
+  defaultCollapsed?: Record<string, boolean>;
+
+  /** Called whenever the tree collapses or expands folders */
+  onCollapsedChange?: (collapsed: Record<string, boolean>) => void;
+}
+
+export function useControlledTreeStore(
+  treeId: string,
+  options: TreeStateOptions,
+  restored: PersistedTreeState | null = null
+): TreeStoreApi {
+  const { selectedIds, defaultSelectedIds, collapsed, defaultCollapsed } = options;
+
+  const [initialRestored] = useState(restored);
+
+  const [store] = useState(() =>
+    createTreeStore(
+      treeId,
+      initialRestored ?? {
+        selectedIds: selectedIds ?? defaultSelectedIds,
+        collapsed: collapsed ?? defaultCollapsed,
+      }
+    )
+  );
+
+  // Latest props for the subscription below (it's created once).
+  // Declared first so it's up to date before the sync effects run.
+  const optionsRef = useRef(options);
+  useLayoutEffect(() => {
+    optionsRef.current = options;
+  });
+
+  // ---------------------------------------------------------------------------
+  // REPORT CHANGES
+  // ---------------------------------------------------------------------------
+  //
+  // A layout effect, not a passive one: the tree's inner components run
+  // their effects before ours (children first) and may already change the
+  // selection - Tree selects the first item on mount. Layout effects all
+  // run before any passive effect.
+  //
+  // Values equal to the current prop are the prop being synced in below,
+  // not a change to report.
+  //
+  // ---------------------------------------------------------------------------
+
+  useLayoutEffect(
+    () =>
+      store.subscribe((state, prev) => {
+        const current = optionsRef.current;
+
+        if (
+          state.selectedIds !== prev.selectedIds &&
+          state.selectedIds !== current.selectedIds
+        ) {
+          current.onSelectionChange?.(state.selectedIds);
+        }
+
+        if (
+          state.collapsed !== prev.collapsed &&
+          state.collapsed !== current.collapsed
+        ) {
+          current.onCollapsedChange?.(state.collapsed);
+        }
+      }),
+    [store]
+  );
+
+  // ---------------------------------------------------------------------------
+  // SYNC CONTROLLED PROPS
+  // ---------------------------------------------------------------------------
+
+  useLayoutEffect(() => {
+    if (selectedIds !== undefined && store.getState().selectedIds !== selectedIds) {
+      store.getState().setSelectedIds(selectedIds);
+    }
+  }, [store, selectedIds]);
+
+  useLayoutEffect(() => {
+    if (collapsed !== undefined && store.getState().collapsed !== collapsed) {
+      store.setState({ collapsed });
+    }
+  }, [store, collapsed]);
+
+  // ---------------------------------------------------------------------------
+  // APPLY RESTORED STATE
+  // ---------------------------------------------------------------------------
+  //
+  // The store already holds it, but the syncs above have just overwritten
+  // any controlled part with the props - put it back, reporting it.
+  //
+  // ---------------------------------------------------------------------------
+
+  useLayoutEffect(() => {
+    if (!initialRestored) return;
+
+    const { setSelectedIds, setAnchorId } = store.getState();
+    setSelectedIds(initialRestored.selectedIds);
+    setAnchorId(initialRestored.anchorId);
+    store.setState({ collapsed: initialRestored.collapsed });
+  }, [store, initialRestored]);
+
+  return store;
+}
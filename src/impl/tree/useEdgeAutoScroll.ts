@@ -0,0 +1,116 @@
+import { useEffect } from "react";
+
+// =============================================================================
+// USE EDGE AUTO SCROLL HOOK
+// =============================================================================
+//
+// Scrolls the tree while a pointer drag hovers near its top or bottom edge,
+// so items can be carried past what's currently visible.
+//
+//   ┌───────────────────────┐
+//   │ ▲▲▲ fast  ─┐          │  ← AUTO_SCROLL_EDGE px band
+//   │ ▲   slow  ─┘          │
+//   │                       │
+//   │   (no scrolling)      │
+//   │                       │
+//   │ ▼   slow  ─┐          │
+//   │ ▼▼▼ fast  ─┘          │  ← AUTO_SCROLL_EDGE px band
+//   └───────────────────────┘
+//
+// Speed grows linearly with how deep the pointer is in the band, up to
+// MAX_SPEED at (or past) the edge. Moving back toward the middle slows it
+// down, so the user can "steer" onto a target.
+//
+// WHY NOT DND-KIT'S AUTO SCROLL?
+//   Its threshold is a percentage of the container (a 20% band on a tall
+//   tree is huge), it also scrolls the window, and it can't be told to
+//   stay out of keyboard drags. Tree turns it off and uses this instead.
+//
+// KEEPING THE DROP TARGET IN SYNC
+//   Nothing here touches hoveredParent. Scrolling the container makes
+//   dnd-kit re-run collision detection against the moved rows and fire
+//   onDragMove/onDragOver, so Tree's handleDragMove recomputes the target
+//   even though the pointer itself is stationary.
+//
+// =============================================================================
+
+/** Height of the edge band that triggers scrolling, in px */
+export const AUTO_SCROLL_EDGE = 48;
+
+/** Scroll speed at the very edge, in px per second */
+const MAX_SPEED = 1200;
+
+/**
+ * Signed scroll speed (px/s) for a pointer position: negative scrolls up,
+ * positive down, 0 when outside both bands or beside the container.
+ */
+function getEdgeSpeed(rect: DOMRect, x: number, y: number): number {
+  if (x < rect.left || x > rect.right) return 0;
+
+  const fromTop = y - rect.top;
+  const fromBottom = rect.bottom - y;
+
+  if (fromTop < AUTO_SCROLL_EDGE) {
+    return -MAX_SPEED * Math.min(1, (AUTO_SCROLL_EDGE - fromTop) / AUTO_SCROLL_EDGE);
+  }
+  if (fromBottom < AUTO_SCROLL_EDGE) {
+    return MAX_SPEED * Math.min(1, (AUTO_SCROLL_EDGE - fromBottom) / AUTO_SCROLL_EDGE);
+  }
+  return 0;
+}
+
+export function useEdgeAutoScroll(
+  scrollRef: React.RefObject<HTMLElement | null>,
+  enabled: boolean
+) {
+  useEffect(() => {
+    const scrollElement = scrollRef.current;
+    if (!enabled || !scrollElement) return;
+
+    // Last known pointer position (viewport coordinates)
+    let pointer: { x: number; y: number } | null = null;
+
+    // Browsers round scrollTop, so slow speeds (< 1px per frame) would never
+    // move at all. Sub-pixel amounts are carried over to the next frame.
+    let carry = 0;
+
+    let lastTime = performance.now();
+    let frame = 0;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      pointer = { x: e.clientX, y: e.clientY };
+    };
+
+    const tick = (now: number) => {
+      // Cap the step so a backgrounded tab doesn't jump on return
+      const seconds = Math.min(now - lastTime, 50) / 1000;
+      lastTime = now;
+
+      if (pointer) {
+        const rect = scrollElement.getBoundingClientRect();
+        const speed = getEdgeSpeed(rect, pointer.x, pointer.y);
+
+        if (speed === 0) {
+          carry = 0;
+        } else {
+          carry += speed * seconds;
+          const step = Math.trunc(carry);
+          if (step !== 0) {
+            scrollElement.scrollTop += step;
+            carry -= step;
+          }
+        }
+      }
+
+      frame = requestAnimationFrame(tick);
+    };
+
+    window.addEventListener("pointermove", handlePointerMove);
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove);
+      cancelAnimationFrame(frame);
+    };
+  }, [scrollRef, enabled]);
+}
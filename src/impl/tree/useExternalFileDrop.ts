@@ -0,0 +1,213 @@
+import type { TTreeNode } from "../../types";
+import type {
+  ExternalFilesDropPayload,
+  InternalTree,
+  InternalTreeNode,
+  SelectableTreeNode,
+} from "./types";
+import { selectCollapsed, useTreeStore, useTreeStoreApi } from "./store";
+import { getDropPath, getRowDropTarget, NEW_ITEM_ID } from "./utils";
+import { readDroppedEntries } from "./fileEntries";
+
+// =============================================================================
+// USE EXTERNAL FILE DROP HOOK
+// =============================================================================
+//
+// Lets files and folders be dragged in from the operating system. These
+// are NATIVE drags (HTML5 dragover / drop), which dnd-kit never sees - so
+// they get handlers of their own, feeding the same hoveredParent:
+//
+//   row dragover        → above / inside / below, like handleDragMove
+//                         (getRowDropTarget), so the usual TreeDropMarker
+//                         or "inside" ring shows - and folders auto-expand
+//   catch zone dragover → start / end of the list (the root, while sorted)
+//   anywhere else       → no target (and no drop)
+//   drop                → onExternalFilesDrop({ files, parent, insertAt,
+//                                               ordering })
+//
+// Only drags carrying files count: text or links dragged over the tree
+// are left to the browser.
+//
+// Spring-loaded folders (see springCollapsed in store.ts) close again when
+// the drag leaves the tree - the only sign of a cancelled native drag we
+// get - or on drop, unless the files went into them.
+//
+// WHY preventDefault EVERYWHERE?
+//   A dragover that isn't prevented refuses the drop - and a file dropped
+//   where it's refused is opened by the browser, navigating away from the
+//   app. So the container prevents it too, just with dropEffect "none".
+//
+// The payload is emitted once the dropped folders have been read (see
+// fileEntries.ts), which can take a moment for big ones.
+//
+// =============================================================================
+
+interface ExternalFileDropOptions {
+  tree: InternalTree;
+
+  selectableItems: SelectableTreeNode[];
+
+  /** id → index in selectableItems */
+  visibleIndexById: Map<string, number>;
+
+  /** Folders it refuses have no "inside" zone (see DRAG AND DROP RULES) */
+  canHaveChildren?: (node: TTreeNode) => boolean;
+
+  /** The tree sorts its rows: inside drops only (see SORTING in types.ts) */
+  sorted?: boolean;
+
+  /** Called with the dropped files; omit to leave OS drags alone */
+  onExternalFilesDrop?: (payload: ExternalFilesDropPayload) => void;
+}
+
+export function useExternalFileDrop({
+  tree,
+  selectableItems,
+  visibleIndexById,
+  canHaveChildren,
+  sorted = false,
+  onExternalFilesDrop,
+}: ExternalFileDropOptions) {
+  const store = useTreeStoreApi();
+  const setHoveredParent = useTreeStore((state) => state.setHoveredParent);
+  const clearHoveredParent = useTreeStore((state) => state.clearHoveredParent);
+  const endSpringLoading = useTreeStore((state) => state.endSpringLoading);
+
+  if (!onExternalFilesDrop) return null;
+
+  /** Accepts the drag as a copy - what a drop from outside always is */
+  const accept = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  };
+
+  // ---------------------------------------------------------------------------
+  // ROWS
+  // ---------------------------------------------------------------------------
+  //
+  // The row's own height is the reference (a dnd-kit drag uses the
+  // dragged row's center; here there's only the pointer).
+  //
+  // ---------------------------------------------------------------------------
+
+  const handleRowDragOver = (node: InternalTreeNode, e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+
+    const index = visibleIndexById.get(node.item.id);
+    if (index === undefined || node.item.id === NEW_ITEM_ID) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientY - rect.top) / rect.height;
+    const target = getRowDropTarget(
+      selectableItems[index],
+      ratio,
+      selectCollapsed(store.getState()),
+      { canHaveChildren, sorted }
+    );
+    if (!target.parent) return;
+
+    accept(e);
+    setHoveredParent({
+      parentId: target.parent.item.id,
+      parentDepth: target.parent.depth,
+      index: target.index,
+      childIndex: target.childIndex,
+      dropIntent: target.dropIntent,
+      rejected: false,
+    });
+  };
+
+  // ---------------------------------------------------------------------------
+  // CATCH ZONES
+  // ---------------------------------------------------------------------------
+
+  const handleCatchZoneDragOver = (
+    position: "start" | "end",
+    e: React.DragEvent
+  ) => {
+    if (!isFileDrag(e)) return;
+
+    const { root } = tree;
+    const atStart = position === "start" && !sorted;
+    const rootChildCount = root.children?.length ?? 0;
+
+    accept(e);
+    setHoveredParent({
+      parentId: root.item.id,
+      parentDepth: root.depth,
+      index: atStart || sorted ? 0 : selectableItems.length,
+      childIndex: atStart ? 0 : rootChildCount,
+      dropIntent: sorted ? "inside" : atStart ? "above" : "below",
+      rejected: false,
+    });
+  };
+
+  // ---------------------------------------------------------------------------
+  // CONTAINER
+  // ---------------------------------------------------------------------------
+  //
+  // Row and catch zone handlers run first (the event bubbles up to here),
+  // so a dragover nobody accepted is over something that takes no drop.
+  //
+  // ---------------------------------------------------------------------------
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e) || e.defaultPrevented) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "none";
+    clearHoveredParent();
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between rows fires dragleave too - only leaving the tree counts
+    if (!isFileDrag(e) || e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      return;
+    }
+    clearHoveredParent();
+    endSpringLoading([]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+
+    e.preventDefault();
+    const { hoveredParent } = store.getState();
+    clearHoveredParent();
+    endSpringLoading(getDropPath(tree.nodesById, hoveredParent));
+
+    const parent = hoveredParent.parentId
+      ? tree.nodesById.get(hoveredParent.parentId)
+      : undefined;
+    if (!parent || hoveredParent.childIndex === null) return;
+
+    const insertAt = hoveredParent.childIndex;
+    const ordering = sorted ? "sorted" : "manual";
+    void readDroppedEntries(e.dataTransfer).then((files) => {
+      if (files.length > 0) {
+        onExternalFilesDrop({ files, parent: parent.item, insertAt, ordering });
+      }
+    });
+  };
+
+  return {
+    /** For TreeNode's onFileDragOver */
+    onRowDragOver: handleRowDragOver,
+
+    /** For CatchZone's onFileDragOver */
+    onCatchZoneDragOver: handleCatchZoneDragOver,
+
+    /** Container handlers - pass to the tree's role="tree" element */
+    onDragOver: handleDragOver,
+    onDragLeave: handleDragLeave,
+    onDrop: handleDrop,
+  };
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+function isFileDrag(e: React.DragEvent): boolean {
+  return e.dataTransfer.types.includes("Files");
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef } from "react";
+import type { TTree, TTreeNode } from "../../types";
+import type { ChildrenLoad, ChildrenLoader } from "./types";
+import { selectCollapsed, useTreeStore, useTreeStoreApi } from "./store";
+import { mergeLoadedChildren } from "./utils";
+
+// =============================================================================
+// USE LAZY CHILDREN HOOK
+// =============================================================================
+//
+// Loads the children of lazy folders (see LAZY CHILDREN in types.ts) the
+// first time they're opened, and hands Tree the data with everything
+// loaded so far merged in.
+//
+// WHEN DOES A FOLDER LOAD?
+//   Whenever it's expanded and hasn't been loaded (or tried) yet. The
+//   trigger is the collapse state itself, not the thing that changed it,
+//   so a click on the chevron, ArrowRight and a drag hovering the folder
+//   (auto-expand, see TreeNode) all load it the same way.
+//
+//   Lazy folders start COLLAPSED - "expanded" is the default for other
+//   folders, and opening every lazy folder on mount would fetch the whole
+//   tree, one level at a time.
+//
+// WHILE LOADING, AND AFTER A FAILURE
+//   The folder's row is followed by a status row (see ChildrenStatusRow):
+//   "Loading…", or the error with a Retry button. Collapsing the folder
+//   hides it; a failed folder isn't retried until the user asks.
+//
+// THE CACHE
+//   Results are kept in the store (childLoads) for the life of the tree,
+//   and handed to onChildrenLoaded so the consumer can merge them into
+//   `data` (see setChildren in treeOps.ts). That matters: the payloads for
+//   loaded items come from the merged tree, but the commands apply them to
+//   `data` - where, until then, those items don't exist. Once `data` has
+//   the children, they win over the cache (see mergeLoadedChildren).
+//
+// =============================================================================
+
+export function useLazyChildren(
+  data: TTree,
+  loadChildren?: ChildrenLoader,
+  onChildrenLoaded?: (parentId: string, children: TTreeNode[]) => void
+) {
+  const store = useTreeStoreApi();
+  const childLoads = useTreeStore((state) => state.childLoads);
+  const collapsed = useTreeStore(selectCollapsed);
+  const setChildrenLoad = useTreeStore((state) => state.setChildrenLoad);
+  const collapseByDefault = useTreeStore((state) => state.collapseByDefault);
+
+  // Read through refs, so an inline loader doesn't re-merge every render
+  const loaderRef = useRef(loadChildren);
+  const onLoadedRef = useRef(onChildrenLoaded);
+  useLayoutEffect(() => {
+    loaderRef.current = loadChildren;
+    onLoadedRef.current = onChildrenLoaded;
+  });
+  const isLazy = loadChildren !== undefined;
+
+  const merged = useMemo(
+    () => (isLazy ? mergeLoadedChildren(data, childLoads) : { data, unloaded: [] }),
+    [isLazy, data, childLoads]
+  );
+  const { unloaded } = merged;
+
+  const load = useCallback(
+    (item: TTreeNode) => {
+      const loader = loaderRef.current;
+      if (!loader) return;
+
+      // Called inside the chain, so a loader that throws (or doesn't return
+      // a promise) still ends in "error" - and a retry row - not "loading"
+      setChildrenLoad(item.id, { status: "loading" });
+      Promise.resolve()
+        .then(() => loader(item))
+        .then(
+          (children) => {
+            setChildrenLoad(item.id, { status: "loaded", children });
+            onLoadedRef.current?.(item.id, children);
+          },
+          (error: unknown) => setChildrenLoad(item.id, { status: "error", error })
+        );
+    },
+    [setChildrenLoad]
+  );
+
+  // ---------------------------------------------------------------------------
+  // COLLAPSED BY DEFAULT
+  // ---------------------------------------------------------------------------
+  //
+  // A passive effect: on mount it must run after useControlledTreeStore has
+  // synced the collapsed prop (a layout effect of the parent), or the sync
+  // would wipe it out - and the consumer would never hear of it.
+  //
+  // It runs again whenever the map on screen changes: a filter or a
+  // spring-loaded drag starts a map of its own, where the unloaded folders
+  // need collapsing too.
+  //
+  // ---------------------------------------------------------------------------
+
+  useEffect(() => {
+    collapseByDefault(unloaded.map((item) => item.id));
+  }, [unloaded, collapsed, collapseByDefault]);
+
+  // ---------------------------------------------------------------------------
+  // LOAD ON EXPAND
+  // ---------------------------------------------------------------------------
+  //
+  // Only an explicit `false` counts as expanded here: a folder without a
+  // collapse state yet is about to be collapsed by the effect above.
+  //
+  // ---------------------------------------------------------------------------
+
+  useEffect(() => {
+    const state = store.getState();
+    const current = selectCollapsed(state);
+
+    for (const item of unloaded) {
+      if (current[item.id] === false && !state.childLoads[item.id]) {
+        load(item);
+      }
+    }
+  }, [store, unloaded, collapsed, load]);
+
+  // ---------------------------------------------------------------------------
+  // STATUS ROWS
+  // ---------------------------------------------------------------------------
+
+  /** Expanded folder id → its pending or failed load */
+  const statusRows = useMemo(() => {
+    const rows = new Map<string, Exclude<ChildrenLoad, { status: "loaded" }>>();
+    for (const item of unloaded) {
+      const status = childLoads[item.id];
+      if (status && status.status !== "loaded" && collapsed[item.id] === false) {
+        rows.set(item.id, status);
+      }
+    }
+    return rows;
+  }, [unloaded, childLoads, collapsed]);
+
+  return {
+    /** `data` with every loaded folder's children in place */
+    data: merged.data,
+
+    statusRows,
+
+    /** Load a failed folder again */
+    retry: load,
+  };
+}
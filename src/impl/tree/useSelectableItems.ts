@@ -1,5 +1,12 @@
 import { useMemo } from "react";
-import type { InternalTreeNode, SelectableTreeNode } from "./types";
+import type {
+  InternalTreeNode,
+  SelectableTreeNode,
+  TreeFilterResult,
+  TreeSortComparator,
+  TreeSortMode,
+} from "./types";
+import { getSortComparator, NEW_ITEM_ID } from "./utils";
 
 // =============================================================================
 // USE SELECTABLE ITEMS HOOK
@@ -46,8 +53,19 @@ import type { InternalTreeNode, SelectableTreeNode } from "./types";
 //      Hovering between FileA2 and FolderB
 //      → hoveredParent.index = 3 (marker appears at index 3)
 //
+// FILTERING:
+//   With a filter result (see useTreeFilter), only the items it shows make
+//   it into the list. Everything above still works off the list, so arrow
+//   keys, Shift+click ranges and drops all skip the filtered-out items.
+//
+// SORTING:
+//   With a sortMode other than "manual" (see SORTING in types.ts), each
+//   folder's rows are sorted as they're walked - the list IS the display
+//   order. A custom comparator is a memo dependency: keep it stable
+//   (useCallback), or every render re-sorts the whole tree.
+//
 // PERFORMANCE:
-//   - Recomputes only when `root` or `collapsed` changes
+//   - Recomputes only when `root`, `collapsed`, `filter` or `sortMode` changes
 //   - O(n) walk through the tree, where n = total nodes
 //   - Typically runs ~0-2ms for trees with hundreds of items
 //
@@ -55,51 +73,122 @@ import type { InternalTreeNode, SelectableTreeNode } from "./types";
 
 export function useSelectableItems(
   root: InternalTreeNode,
-  collapsed: Record<string, boolean>
+  collapsed: Record<string, boolean>,
+  filter: TreeFilterResult | null = null,
+  sortMode: TreeSortMode = "manual"
 ): SelectableTreeNode[] {
-  return useMemo(() => {
-    const items: SelectableTreeNode[] = [];
-    let index = 0;
+  return useMemo(
+    () =>
+      flattenVisibleItems(
+        root,
+        collapsed,
+        filter?.visibleIds,
+        getSortComparator(sortMode) ?? undefined
+      ),
+    [root, collapsed, filter, sortMode]
+  );
+  // Dependencies:
+  //   - root: tree structure changed (items added/removed/moved)
+  //   - collapsed: collapse state changed (items shown/hidden)
+  //   - filter: the query changed (items matched/unmatched)
+  //   - sortMode: the order changed
+}
 
-    // ---------------------------------------------------------------------------
-    // RECURSIVE WALK FUNCTION
-    // ---------------------------------------------------------------------------
-    //
-    // Walk the tree in depth-first order (parent, then children).
-    // For each node:
-    //   1. Add it to the flat array (with current index)
-    //   2. If it has children AND is not collapsed, recurse into children
-    //
-    // ---------------------------------------------------------------------------
+// =============================================================================
+// FLATTEN VISIBLE ITEMS
+// =============================================================================
+//
+// The walk itself, as a plain function (the benchmark runs it outside React).
+//
+// =============================================================================
 
-    function walk(node: InternalTreeNode) {
-      // Skip the root node itself (depth 0) - we only want its children
-      // The root is an invisible container, not a real tree item
-      if (node.depth > 0) {
-        items.push({ node, index: index++ });
-      }
+export function flattenVisibleItems(
+  root: InternalTreeNode,
+  collapsed: Record<string, boolean>,
+  visibleIds?: ReadonlySet<string>,
+  compare?: TreeSortComparator
+): SelectableTreeNode[] {
+  const items: SelectableTreeNode[] = [];
+  let index = 0;
 
-      // Process children if:
-      //   1. Node has children
-      //   2. Node is NOT collapsed (or is root which is always "expanded")
-      const isCollapsed = collapsed[node.item.id] ?? false;
-      const shouldShowChildren = node.children && (node.depth === 0 || !isCollapsed);
+  // ---------------------------------------------------------------------------
+  // RECURSIVE WALK FUNCTION
+  // ---------------------------------------------------------------------------
+  //
+  // Walk the tree in depth-first order (parent, then children).
+  // For each node:
+  //   1. Add it to the flat array (with current index)
+  //   2. If it has children AND is not collapsed, recurse into children
+  //
+  // While filtering, a node the filter doesn't show is skipped along with
+  // everything below it (nothing below it matches either).
+  //
+  // posInSet and setSize count the siblings as shown: in sort order, and
+  // only the ones the filter leaves.
+  //
+  // ---------------------------------------------------------------------------
 
-      if (shouldShowChildren) {
-        for (const child of node.children!) {
-          walk(child);
-        }
-      }
+  function walk(node: InternalTreeNode, posInSet: number, setSize: number) {
+    // Skip the root node itself (depth 0) - we only want its children
+    // The root is an invisible container, not a real tree item
+    if (node.depth > 0) {
+      items.push({ node, index: index++, posInSet, setSize });
     }
 
-    // Start walking from root
-    walk(root);
+    // Process children if:
+    //   1. Node has children
+    //   2. Node is NOT collapsed (or is root which is always "expanded")
+    const isCollapsed = collapsed[node.item.id] ?? false;
+    const shouldShowChildren = node.children && (node.depth === 0 || !isCollapsed);
 
-    return items;
-  }, [root, collapsed]);
-  // Dependencies:
-  //   - root: tree structure changed (items added/removed/moved)
-  //   - collapsed: collapse state changed (items shown/hidden)
+    if (shouldShowChildren) {
+      const children = compare ? sortChildren(node.children!, compare) : node.children!;
+      const shown = visibleIds
+        ? children.filter((child) => visibleIds.has(child.item.id))
+        : children;
+      shown.forEach((child, i) => walk(child, i + 1, shown.length));
+    }
+  }
+
+  // Start walking from root
+  walk(root, 0, 1);
+
+  return items;
+}
+
+/**
+ * A sorted copy of a folder's children. The "new item" placeholder stays
+ * on top, where the name input was opened.
+ */
+function sortChildren(
+  children: InternalTreeNode[],
+  compare: TreeSortComparator
+): InternalTreeNode[] {
+  return [...children].sort((a, b) => {
+    if (a.item.id === NEW_ITEM_ID) return -1;
+    if (b.item.id === NEW_ITEM_ID) return 1;
+    return compare(a.item, b.item);
+  });
+}
+
+// =============================================================================
+// INDEX SELECTABLE ITEMS
+// =============================================================================
+//
+// id → position in the flat list, for O(1) "which row is this?" lookups
+// (hovered row during a drag, focused row, range ends).
+// Memoize it alongside the list it indexes.
+//
+// =============================================================================
+
+export function indexSelectableItems(
+  selectableItems: SelectableTreeNode[]
+): Map<string, number> {
+  const indexById = new Map<string, number>();
+  for (const { node, index } of selectableItems) {
+    indexById.set(node.item.id, index);
+  }
+  return indexById;
 }
 
 // =============================================================================
@@ -125,7 +214,7 @@ export function useSelectableItems(
 // ALTERNATIVE: WHY NOT STORE THIS IN ZUSTAND?
 // =============================================================================
 //
-// Q: Why compute this in a hook instead of storing in the global store?
+// Q: Why compute this in a hook instead of storing in the store?
 // A: The flat array is DERIVED STATE.
 //
 // Derived state = computed from other state (tree + collapsed)
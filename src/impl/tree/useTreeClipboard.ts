@@ -0,0 +1,341 @@
+import type { TTreeNode } from "../../types";
+import type {
+  InternalTree,
+  NameValidator,
+  PastePayload,
+  ProposedDrop,
+  TreeClipboard,
+} from "./types";
+import { selectCollapsed, useTreeStore, useTreeStoreApi } from "./store";
+import {
+  canDropInto,
+  getCopyName,
+  getCreateTarget,
+  getTopmostNodes,
+} from "./utils";
+import {
+  readClipboardData,
+  serializeClipboard,
+  writeClipboardData,
+} from "./clipboard";
+
+// =============================================================================
+// USE TREE CLIPBOARD HOOK
+// =============================================================================
+//
+// Cut, copy and paste of the selection, like in a file explorer:
+//
+//   Cmd/Ctrl+X   Cut the selection - the rows stay, dimmed, until pasted
+//   Cmd/Ctrl+C   Copy the selection
+//   Cmd/Ctrl+V   Paste next to the focused file, or into the focused folder
+//                (the same spot "New file" would use - see getCreateTarget)
+//
+// WHY CLIPBOARD EVENTS, NOT KEYS?
+//   The keys are handled by the browser, which fires copy / cut / paste
+//   events on the focused row. Only those events may write to (and read
+//   from) the system clipboard without asking for permission - so the
+//   hook returns handlers for them, bubbled up to the tree container like
+//   useTreeKeyboard's onKeyDown. Edit → Copy in the browser menu works too.
+//
+//   Context menu items can't get such an event; cut/copy/paste below do
+//   the same with the tree's own clipboard (and write the system one when
+//   the browser allows it).
+//
+// WHICH CLIPBOARD?
+//   Every cut/copy goes to the tree store (see CLIPBOARD there) AND to the
+//   system clipboard, as JSON with a matching key (see clipboard.ts). On
+//   paste:
+//
+//     system clipboard holds our key, or no tree items  → our own clipboard
+//     system clipboard holds items from elsewhere       → those, as a copy
+//
+//   "Elsewhere" is another tab or another tree - their ids mean nothing
+//   here, so their items can only come in as copies.
+//
+// PASTING
+//   Like a drop, a paste only emits a payload (onPaste):
+//
+//     cut  → operation "move". Nothing happens if the target is inside a
+//            cut folder or a name clashes (validateName). The clipboard
+//            empties once the items have moved.
+//     copy → operation "copy". Clashing names get numbered ("report
+//            copy.txt", see getCopyName). The clipboard stays, so the
+//            same items can be pasted again.
+//
+//   The drop rules apply as well (see DRAG AND DROP RULES in types.ts):
+//   items canDrag refuses can't be cut, a folder canHaveChildren refuses
+//   isn't pasted into (the paste goes next to it), and nothing is pasted
+//   where canDrop says no.
+//
+//   In a sorted tree (see SORTING in types.ts) the items go at the end of
+//   the target folder, with `ordering: "sorted"` - their place among the
+//   rows is the comparator's.
+//
+// =============================================================================
+
+interface TreeClipboardOptions {
+  tree: InternalTree;
+
+  validateName: NameValidator;
+
+  canDrag?: (node: TTreeNode) => boolean;
+
+  canDrop?: (drop: ProposedDrop) => boolean;
+
+  canHaveChildren?: (node: TTreeNode) => boolean;
+
+  /** The tree sorts its rows: pastes append (see SORTING in types.ts) */
+  sorted?: boolean;
+
+  /** Called with the paste; omit to disable cut and paste (copy still works) */
+  onPaste?: (payload: PastePayload) => void;
+}
+
+export function useTreeClipboard({
+  tree,
+  validateName,
+  canDrag,
+  canDrop,
+  canHaveChildren,
+  sorted = false,
+  onPaste,
+}: TreeClipboardOptions) {
+  const store = useTreeStoreApi();
+  const setClipboard = useTreeStore((state) => state.setClipboard);
+  const setSelectedIds = useTreeStore((state) => state.setSelectedIds);
+  const setAnchorId = useTreeStore((state) => state.setAnchorId);
+  const setFocusedId = useTreeStore((state) => state.setFocusedId);
+  const setCollapsed = useTreeStore((state) => state.setCollapsed);
+
+  // ---------------------------------------------------------------------------
+  // CUT / COPY
+  // ---------------------------------------------------------------------------
+  //
+  // Topmost items only: a selected folder brings its selected descendants
+  // along anyway. A cut leaves out the items that can't be dragged - it's
+  // a move too, just a slower one.
+  //
+  // ---------------------------------------------------------------------------
+
+  const take = (operation: TreeClipboard["operation"]): TreeClipboard | null => {
+    if (operation === "move" && !onPaste) return null;
+
+    const { selectedIds } = store.getState();
+    const items = getTopmostNodes(tree.root, selectedIds)
+      .map((n) => n.item)
+      .filter((item) => operation === "copy" || !canDrag || canDrag(item));
+    if (items.length === 0) return null;
+
+    const clipboard: TreeClipboard = { key: crypto.randomUUID(), operation, items };
+    setClipboard(clipboard);
+    return clipboard;
+  };
+
+  // ---------------------------------------------------------------------------
+  // PASTE
+  // ---------------------------------------------------------------------------
+
+  /** Builds a "move" payload for cut items, or null if they can't go there */
+  const getMovePayload = (
+    clipboard: TreeClipboard,
+    parentId: string,
+    insertAt: number
+  ): PastePayload | null => {
+    const parent = tree.nodesById.get(parentId);
+    const ids = new Set(clipboard.items.map((item) => item.id));
+
+    // Only what's still in the tree (it may have changed since the cut)
+    const nodes = getTopmostNodes(tree.root, [...ids]);
+    if (!parent || nodes.length === 0 || !canDropInto(parent, ids, "move")) {
+      return null;
+    }
+
+    // Items already in the target folder leave their old spot first -
+    // the same adjustment a drop makes (see handleDragEnd in Tree)
+    const children: TTreeNode[] = [];
+    let index = insertAt;
+    (parent.children ?? []).forEach((child, i) => {
+      if (!ids.has(child.item.id)) {
+        children.push(child.item);
+      } else if (i < insertAt) {
+        index--;
+      }
+    });
+
+    const items = nodes.map((n) => n.item);
+    const siblings = [...children];
+    for (const item of items) {
+      if (validateName(item.name, { item, parent: parent.item, siblings })) {
+        return null;
+      }
+      siblings.push(item);
+    }
+
+    return {
+      items,
+      parent: parent.item,
+      children,
+      insertAt: index,
+      operation: "move",
+      ordering: sorted ? "sorted" : "manual",
+    };
+  };
+
+  /** Builds a "copy" payload, numbering names that clash */
+  const getCopyPayload = (
+    clipboard: TreeClipboard,
+    parentId: string,
+    insertAt: number
+  ): PastePayload | null => {
+    const parent = tree.nodesById.get(parentId);
+    if (!parent) return null;
+
+    const children = (parent.children ?? []).map((child) => child.item);
+    const siblings = [...children];
+    const items: TTreeNode[] = [];
+
+    for (const original of clipboard.items) {
+      const item = { ...original, name: getCopyName(original.name, siblings) };
+      if (validateName(item.name, { item, parent: parent.item, siblings })) {
+        return null;
+      }
+      siblings.push(item);
+      items.push(item);
+    }
+
+    return {
+      items,
+      parent: parent.item,
+      children,
+      insertAt,
+      operation: "copy",
+      ordering: sorted ? "sorted" : "manual",
+    };
+  };
+
+  /**
+   * Pastes `external` (read from the system clipboard) or, when that's
+   * missing or our own, the tree's clipboard. Returns whether it did.
+   */
+  const pasteFrom = (external: TreeClipboard | null): boolean => {
+    if (!onPaste) return false;
+
+    const { clipboard: own, focusedId } = store.getState();
+    const clipboard =
+      external && external.key !== own?.key
+        ? { ...external, operation: "copy" as const }
+        : own;
+    if (!clipboard) return false;
+
+    const target = getCreateTarget(tree, focusedId, canHaveChildren);
+    const { parentId } = target;
+    const insertAt = sorted
+      ? (tree.nodesById.get(parentId)?.children?.length ?? 0)
+      : target.insertAt;
+    const payload =
+      clipboard.operation === "move"
+        ? getMovePayload(clipboard, parentId, insertAt)
+        : getCopyPayload(clipboard, parentId, insertAt);
+    if (!payload) return false;
+
+    // Asked like a drop: the position before moved items leave theirs
+    if (
+      canDrop &&
+      !canDrop({
+        items: payload.items,
+        parent: payload.parent,
+        insertAt,
+        operation: payload.operation,
+      })
+    ) {
+      return false;
+    }
+
+    onPaste(payload);
+
+    // Show where the items went. Copies get their ids from the consumer,
+    // so only moved items can be selected.
+    if (selectCollapsed(store.getState())[parentId]) {
+      setCollapsed(parentId, false);
+    }
+    if (payload.operation === "move") {
+      const ids = payload.items.map((item) => item.id);
+      setSelectedIds(ids);
+      setAnchorId(ids[0]);
+      setFocusedId(ids[0]);
+      setClipboard(null);
+    }
+    return true;
+  };
+
+  // ---------------------------------------------------------------------------
+  // CLIPBOARD EVENTS
+  // ---------------------------------------------------------------------------
+
+  const isIgnored = (e: React.ClipboardEvent) => {
+    // Inputs nested inside the tree (rename) keep their own cut/copy/paste
+    const target = e.target as HTMLElement;
+    return (
+      target.tagName === "INPUT" ||
+      target.tagName === "TEXTAREA" ||
+      target.isContentEditable ||
+      // Nothing changes hands mid-drag
+      store.getState().draggingIds.length > 0
+    );
+  };
+
+  const handleCutOrCopy = (
+    e: React.ClipboardEvent,
+    operation: TreeClipboard["operation"]
+  ) => {
+    if (isIgnored(e)) return;
+
+    const clipboard = take(operation);
+    if (!clipboard) return;
+
+    // Without preventDefault the browser would copy the selected text instead
+    e.preventDefault();
+    writeClipboardData(e.clipboardData, clipboard);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (isIgnored(e)) return;
+
+    if (pasteFrom(readClipboardData(e.clipboardData))) {
+      e.preventDefault();
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // ACTIONS (context menu)
+  // ---------------------------------------------------------------------------
+  //
+  // Reading the system clipboard outside a paste event needs a permission
+  // prompt, so the menu's Paste only uses the tree's own clipboard.
+  // Writing it is allowed from a click - but not everywhere (insecure
+  // origins, some embedded frames), so a failure is ignored.
+  //
+  // ---------------------------------------------------------------------------
+
+  const takeFromMenu = (operation: TreeClipboard["operation"]) => {
+    const clipboard = take(operation);
+    if (!clipboard) return;
+
+    navigator.clipboard
+      ?.writeText(serializeClipboard(clipboard))
+      .catch(() => {});
+  };
+
+  return {
+    /** Container handlers - pass to the tree's role="tree" element */
+    onCut: (e: React.ClipboardEvent) => handleCutOrCopy(e, "move"),
+    onCopy: (e: React.ClipboardEvent) => handleCutOrCopy(e, "copy"),
+    onPaste: handlePaste,
+
+    cut: () => takeFromMenu("move"),
+    copy: () => takeFromMenu("copy"),
+    paste: () => {
+      pasteFrom(null);
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { useEffect, useLayoutEffect, useMemo } from "react";
+import type {
+  InternalTreeNode,
+  TreeFilter,
+  TreeFilterResult,
+} from "./types";
+import { useTreeStore, useTreeStoreApi } from "./store";
+import { filterTree } from "./utils";
+
+// =============================================================================
+// USE TREE FILTER HOOK
+// =============================================================================
+//
+// Runs the Tree's `filter` prop over the tree (see FILTER in utils.ts) and
+// keeps the store in step with it:
+//
+//   filter set / query changed → a fresh filtered view: every folder on
+//                                the way to a match is open
+//   filter cleared             → back to the folders the user had open
+//
+// Both come from the store's filterCollapsed overlay: the filtered view
+// gets its OWN collapse state, so nothing done while filtering touches
+// `collapsed` (or reaches onCollapsedChange / persistence).
+//
+// SELECTION
+//   Selected items the filter hides are deselected - Delete or a drag
+//   shouldn't act on rows the user can't see. Focus follows on its own
+//   (see KEEP FOCUS ON A VISIBLE ITEM in Tree).
+//
+// The filter is compared by its fields, not by reference, so
+// `filter={{ type: "substring", query }}` doesn't refilter on every
+// render. A predicate's `test` IS compared by reference - memoize it.
+//
+// =============================================================================
+
+export function useTreeFilter(
+  root: InternalTreeNode,
+  filter: TreeFilter | null | undefined
+): TreeFilterResult | null {
+  const store = useTreeStoreApi();
+  const setFilterActive = useTreeStore((state) => state.setFilterActive);
+  const setSelectedIds = useTreeStore((state) => state.setSelectedIds);
+  const setAnchorId = useTreeStore((state) => state.setAnchorId);
+
+  const type = filter?.type ?? null;
+  const query = filter && filter.type !== "predicate" ? filter.query : "";
+  const test = filter?.type === "predicate" ? filter.test : null;
+
+  // null for "no filter", including an empty query
+  const activeFilter = useMemo((): TreeFilter | null => {
+    if (type === "predicate") return test ? { type, test } : null;
+    if (type && query.trim() !== "") return { type, query };
+    return null;
+  }, [type, query, test]);
+
+  const result = useMemo(
+    () => (activeFilter ? filterTree(root, activeFilter) : null),
+    [root, activeFilter]
+  );
+
+  // Before paint, so a new query never flashes with the old folders open
+  useLayoutEffect(() => {
+    setFilterActive(activeFilter !== null);
+  }, [activeFilter, setFilterActive]);
+
+  useEffect(() => {
+    if (!result) return;
+
+    const { selectedIds, anchorId } = store.getState();
+    const kept = selectedIds.filter((id) => result.visibleIds.has(id));
+    if (kept.length === selectedIds.length) return;
+
+    setSelectedIds(kept);
+    if (anchorId && !result.visibleIds.has(anchorId)) {
+      setAnchorId(kept[0] ?? null);
+    }
+  }, [store, result, setSelectedIds, setAnchorId]);
+
+  return result;
+}
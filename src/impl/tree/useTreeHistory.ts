@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { createStore, useStore } from "zustand";
+import type { TTree } from "../../types";
+import type { TreeCommand } from "./types";
+
+// =============================================================================
+// USE TREE HISTORY HOOK
+// =============================================================================
+//
+// Owns the tree data for a consumer - plus the tree's selection and
+// collapse state, as controlled props - and records every change so it can
+// be undone and redone:
+//
+//   const history = useTreeHistory(initialData);
+//
+//   <Tree
+//     data={history.data}
+//     selectedIds={history.selectedIds}
+//     onSelectionChange={history.onSelectionChange}
+//     collapsed={history.collapsed}
+//     onCollapsedChange={history.onCollapsedChange}
+//     onDragEnd={(payload) => history.execute(moveCommand(payload))}
+//     onUndo={history.undo}
+//     onRedo={history.redo}
+//   />
+//
+// WHAT IS RECORDED?
+//   A SNAPSHOT of the tree data plus the UI state the user sees:
+//     - selectedIds
+//     - collapsed
+//   Undo puts all of it back, so the moved items come back selected, in
+//   the folder they came from, with that folder expanded - not just
+//   "the data is right but you have to go find it".
+//
+//   Selecting and collapsing on their own are NOT steps - they're just
+//   kept current so the next step's snapshot has them.
+//
+// TWO STACKS:
+//
+//   past:   [ snapshot before A, snapshot before B ]   ← undo pops here
+//   future: [ snapshot before the last undo ]          ← redo pops here
+//
+//   undo: remember "now" on future, restore the top of past
+//   redo: remember "now" on past,   restore the top of future
+//   execute: push "now" on past, CLEAR future (a new branch of history)
+//
+// COALESCING:
+//   A command with the same coalesceKey as the previous step, arriving
+//   within coalesceMs of it, doesn't add a step - the previous step's
+//   snapshot (from before the whole burst) is kept.
+//
+// =============================================================================
+
+export interface TreeHistoryOptions {
+  /** Maximum number of undo steps kept; the oldest are dropped (default 100) */
+  maxDepth?: number;
+
+  /** Window for merging same-key commands into one step (default 1000ms) */
+  coalesceMs?: number;
+}
+
+interface TreeSnapshot {
+  data: TTree;
+  selectedIds: string[];
+  collapsed: Record<string, boolean>;
+}
+
+interface HistoryEntry {
+  /** Label of the command this entry undoes/redoes */
+  label: string;
+
+  /** The state to go back to */
+  snapshot: TreeSnapshot;
+
+  /** For coalescing - only meaningful on the top of `past` */
+  coalesceKey: string | null;
+  timestamp: number;
+}
+
+interface HistoryState extends TreeSnapshot {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+
+  setSelectedIds: (selectedIds: string[]) => void;
+  setCollapsed: (collapsed: Record<string, boolean>) => void;
+  execute: (command: TreeCommand) => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+//
+// Tree replaces (never mutates) the arrays and objects it reports, so a
+// snapshot can hold on to them by reference.
+//
+// =============================================================================
+
+function takeSnapshot({ data, selectedIds, collapsed }: TreeSnapshot): TreeSnapshot {
+  return { data, selectedIds, collapsed };
+}
+
+// =============================================================================
+// HISTORY STORE
+// =============================================================================
+//
+// A small zustand store per hook instance (not a global one - two trees on
+// a page have two histories). Being a store rather than useState means
+// undo/redo/execute always see the latest stacks, even when several run
+// in the same tick.
+//
+// =============================================================================
+
+function createHistoryStore(
+  initialData: TTree,
+  { maxDepth = 100, coalesceMs = 1000 }: TreeHistoryOptions
+) {
+  return createStore<HistoryState>()((set, get) => ({
+    data: initialData,
+    selectedIds: [],
+    collapsed: {},
+    past: [],
+    future: [],
+
+    setSelectedIds: (selectedIds) => set({ selectedIds }),
+
+    setCollapsed: (collapsed) => set({ collapsed }),
+
+    execute: (command) => {
+      const state = get();
+      const { data, past } = state;
+      const next = command.apply(data);
+
+      // The command decided there was nothing to do
+      if (next === data) return;
+
+      const now = Date.now();
+      const last = past[past.length - 1];
+      const shouldCoalesce =
+        last !== undefined &&
+        command.coalesceKey !== null &&
+        last.coalesceKey === command.coalesceKey &&
+        now - last.timestamp <= coalesceMs;
+
+      const nextPast = shouldCoalesce
+        ? [...past.slice(0, -1), { ...last, timestamp: now }]
+        : [
+            ...past,
+            {
+              label: command.label,
+              snapshot: takeSnapshot(state),
+              coalesceKey: command.coalesceKey,
+              timestamp: now,
+            },
+          ].slice(-maxDepth);
+
+      set({ data: next, past: nextPast, future: [] });
+    },
+
+    undo: () => {
+      const state = get();
+      const { past, future } = state;
+      const entry = past[past.length - 1];
+      if (!entry) return;
+
+      set({
+        ...entry.snapshot,
+        past: past.slice(0, -1),
+        future: [
+          ...future,
+          {
+            label: entry.label,
+            snapshot: takeSnapshot(state),
+            coalesceKey: null,
+            timestamp: 0,
+          },
+        ],
+      });
+    },
+
+    redo: () => {
+      const state = get();
+      const { past, future } = state;
+      const entry = future[future.length - 1];
+      if (!entry) return;
+
+      set({
+        ...entry.snapshot,
+        past: [
+          ...past,
+          // A redone step never merges with whatever comes next
+          {
+            label: entry.label,
+            snapshot: takeSnapshot(state),
+            coalesceKey: null,
+            timestamp: 0,
+          },
+        ].slice(-maxDepth),
+        future: future.slice(0, -1),
+      });
+    },
+  }));
+}
+
+// =============================================================================
+// HOOK
+// =============================================================================
+//
+// initialData and options are read ONCE, on mount. After that the history
+// owns the data; change it through execute().
+//
+// =============================================================================
+
+export function useTreeHistory(initialData: TTree, options: TreeHistoryOptions = {}) {
+  const [store] = useState(() => createHistoryStore(initialData, options));
+
+  const data = useStore(store, (state) => state.data);
+  const selectedIds = useStore(store, (state) => state.selectedIds);
+  const collapsed = useStore(store, (state) => state.collapsed);
+  const onSelectionChange = useStore(store, (state) => state.setSelectedIds);
+  const onCollapsedChange = useStore(store, (state) => state.setCollapsed);
+  const execute = useStore(store, (state) => state.execute);
+  const undo = useStore(store, (state) => state.undo);
+  const redo = useStore(store, (state) => state.redo);
+
+  // Labels double as canUndo/canRedo (null = nothing to undo/redo)
+  const undoLabel = useStore(store, (state) => state.past.at(-1)?.label ?? null);
+  const redoLabel = useStore(store, (state) => state.future.at(-1)?.label ?? null);
+
+  return {
+    data,
+    selectedIds,
+    onSelectionChange,
+    collapsed,
+    onCollapsedChange,
+    execute,
+    undo,
+    redo,
+    canUndo: undoLabel !== null,
+    canRedo: redoLabel !== null,
+    undoLabel,
+    redoLabel,
+  };
+}
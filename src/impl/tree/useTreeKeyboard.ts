@@ -0,0 +1,392 @@
+import { useCallback, useRef } from "react";
+import type { InternalTreeNode, SelectableTreeNode } from "./types";
+import { selectCollapsed, useTreeStore, useTreeStoreApi } from "./store";
+import { getRangeIds } from "./utils";
+
+// =============================================================================
+// USE TREE KEYBOARD HOOK
+// =============================================================================
+//
+// Returns a single onKeyDown handler for the tree container.
+//
+// Every key walks the SAME flat selectableItems array that range selection
+// and drop positioning use, so "next" and "previous" always mean
+// "next/previous VISIBLE item":
+//
+//   Key               Action
+//   ----------------  ------------------------------------------------------
+//   ArrowDown / Up    Move focus (and selection) to next / previous item
+//   Home / End        Move focus (and selection) to first / last item
+//   Shift + any of ↑  Extend the selection from anchorId to the new focus
+//   ArrowRight        Collapsed folder → expand
+//                     Expanded folder  → move to first child
+//   ArrowLeft         Expanded folder  → collapse
+//                     Anything else    → move to parent folder
+//   Escape            Reduce a multi-selection to just the focused item
+//   F2 / Enter        Rename the focused item inline (if renaming is enabled)
+//   Delete/Backspace  Delete the selected items (if deleting is enabled)
+//   ContextMenu key   Open the context menu for the focused item
+//     / Shift+F10
+//   Cmd/Ctrl+Z        Undo (if the consumer keeps a history)
+//   Cmd/Ctrl+Shift+Z  Redo
+//     / Ctrl+Y
+//   Letters, digits   Jump to the next item whose name starts with what
+//                     was typed (see TYPE-AHEAD below)
+//
+// Cmd/Ctrl+X / C / V aren't here: the browser turns them into clipboard
+// events, handled by useTreeClipboard.
+//
+// WHY ON THE CONTAINER?
+//   Key events bubble, so one handler on the tree sees keys from whichever
+//   row currently holds DOM focus. Rows don't need their own handlers, and
+//   the handler always works off the latest store state via getState().
+//
+// =============================================================================
+
+interface TreeKeyboardOptions {
+  /** Whether F2/Enter may put the focused item into rename mode */
+  canRename: boolean;
+
+  /** Called for Delete/Backspace; omit to disable deleting */
+  onDeleteSelection?: () => void;
+
+  /** Called for the ContextMenu key / Shift+F10 with the focused row */
+  onOpenContextMenu?: (node: InternalTreeNode, row: HTMLElement) => void;
+
+  /** Called for Cmd/Ctrl+Z; omit to leave the key alone */
+  onUndo?: () => void;
+
+  /** Called for Cmd/Ctrl+Shift+Z and Ctrl+Y; omit to leave the keys alone */
+  onRedo?: () => void;
+}
+
+export function useTreeKeyboard(
+  selectableItems: SelectableTreeNode[],
+  visibleIndexById: Map<string, number>,
+  {
+    canRename,
+    onDeleteSelection,
+    onOpenContextMenu,
+    onUndo,
+    onRedo,
+  }: TreeKeyboardOptions
+) {
+  const store = useTreeStoreApi();
+  const setSelectedIds = useTreeStore((state) => state.setSelectedIds);
+  const setAnchorId = useTreeStore((state) => state.setAnchorId);
+  const setFocusedId = useTreeStore((state) => state.setFocusedId);
+  const setCollapsed = useTreeStore((state) => state.setCollapsed);
+  const setEditingId = useTreeStore((state) => state.setEditingId);
+
+  const typeAheadRef = useRef<TypeAhead>({ buffer: "", lastKeyAt: 0 });
+
+  return useCallback(
+    (e: React.KeyboardEvent) => {
+      // Don't hijack typing in inputs nested inside the tree
+      const target = e.target as HTMLElement;
+      if (
+        target.tagName === "INPUT" ||
+        target.tagName === "TEXTAREA" ||
+        target.isContentEditable
+      ) {
+        return;
+      }
+
+      const state = store.getState();
+      const { focusedId, anchorId, selectedIds, draggingIds } = state;
+      const collapsed = selectCollapsed(state);
+
+      // dnd-kit owns the keyboard while something is being dragged
+      if (draggingIds.length > 0) return;
+
+      // -----------------------------------------------------------------------
+      // UNDO / REDO
+      // -----------------------------------------------------------------------
+      //
+      // Checked against the lowercased key: with Shift held, e.key is "Z".
+      // Handled before the empty-tree check - undoing "delete everything"
+      // has to work.
+      //
+      // -----------------------------------------------------------------------
+
+      if (e.metaKey || e.ctrlKey) {
+        const key = e.key.toLowerCase();
+        const isUndo = key === "z" && !e.shiftKey;
+        const isRedo = (key === "z" && e.shiftKey) || (key === "y" && e.ctrlKey);
+
+        if (isUndo && onUndo) {
+          e.preventDefault();
+          onUndo();
+        } else if (isRedo && onRedo) {
+          e.preventDefault();
+          onRedo();
+        }
+        if (isUndo || isRedo) return;
+      }
+
+      if (selectableItems.length === 0) return;
+
+      // -----------------------------------------------------------------------
+      // Resolve the currently focused item
+      // -----------------------------------------------------------------------
+      //
+      // -1 means nothing is focused (or it was hidden) - ArrowDown then lands
+      // on the first item.
+      //
+      // -----------------------------------------------------------------------
+
+      const currentIndex =
+        (focusedId !== null ? visibleIndexById.get(focusedId) : undefined) ?? -1;
+      const current = currentIndex === -1 ? null : selectableItems[currentIndex];
+
+      // -----------------------------------------------------------------------
+      // MOVE FOCUS
+      // -----------------------------------------------------------------------
+      //
+      // Plain move: select only the new item and make it the anchor
+      //   (same as a plain click).
+      // Extend (Shift): keep the anchor, select anchor → new item
+      //   (same as a shift+click).
+      //
+      // -----------------------------------------------------------------------
+
+      const moveTo = (index: number, extend: boolean) => {
+        const clamped = Math.max(0, Math.min(index, selectableItems.length - 1));
+        const id = selectableItems[clamped].node.item.id;
+
+        setFocusedId(id);
+
+        if (extend) {
+          const anchor = anchorId ?? current?.node.item.id ?? id;
+          setSelectedIds(
+            getRangeIds(selectableItems, visibleIndexById, anchor, id) ?? [id]
+          );
+          if (!anchorId) setAnchorId(anchor);
+          return;
+        }
+
+        setSelectedIds([id]);
+        setAnchorId(id);
+      };
+
+      // -----------------------------------------------------------------------
+      // CONTEXT MENU KEY
+      // -----------------------------------------------------------------------
+      //
+      // Handled before the switch because Shift+F10 is a modifier combo.
+      //
+      // -----------------------------------------------------------------------
+
+      if (e.key === "ContextMenu" || (e.key === "F10" && e.shiftKey)) {
+        if (current && onOpenContextMenu) {
+          e.preventDefault();
+          onOpenContextMenu(current.node, target);
+        }
+        return;
+      }
+
+      if (isTypeAheadKey(e)) {
+        const index = stepTypeAhead(
+          typeAheadRef.current,
+          e.key,
+          e.timeStamp,
+          selectableItems,
+          currentIndex
+        );
+        if (index !== -1) {
+          e.preventDefault();
+          moveTo(index, false);
+        }
+        return;
+      }
+
+      switch (e.key) {
+        case "ArrowDown": {
+          e.preventDefault();
+          moveTo(currentIndex + 1, e.shiftKey);
+          return;
+        }
+
+        case "ArrowUp": {
+          e.preventDefault();
+          moveTo(currentIndex === -1 ? 0 : currentIndex - 1, e.shiftKey);
+          return;
+        }
+
+        case "Home": {
+          e.preventDefault();
+          moveTo(0, e.shiftKey);
+          return;
+        }
+
+        case "End": {
+          e.preventDefault();
+          moveTo(selectableItems.length - 1, e.shiftKey);
+          return;
+        }
+
+        case "ArrowRight": {
+          e.preventDefault();
+          if (!current) {
+            moveTo(0, false);
+            return;
+          }
+
+          const { node } = current;
+          if (node.item.type !== "directory") return;
+
+          if (collapsed[node.item.id]) {
+            // Collapsed folder → expand it, focus stays put
+            setCollapsed(node.item.id, false);
+          } else if (selectableItems[currentIndex + 1]?.node.parent === node) {
+            // Expanded folder → step into its first child (next flat item,
+            // unless the filter hides every child)
+            moveTo(currentIndex + 1, false);
+          }
+          return;
+        }
+
+        case "ArrowLeft": {
+          e.preventDefault();
+          if (!current) {
+            moveTo(0, false);
+            return;
+          }
+
+          const { node } = current;
+          const isExpandedFolder =
+            node.item.type === "directory" && !collapsed[node.item.id];
+
+          if (isExpandedFolder && node.children && node.children.length > 0) {
+            // Expanded folder → collapse it, focus stays put
+            setCollapsed(node.item.id, true);
+            return;
+          }
+
+          // Anything else → jump to parent (the root itself isn't rendered)
+          if (node.parent && node.parent.depth > 0) {
+            const parentIndex = visibleIndexById.get(node.parent.item.id);
+            if (parentIndex !== undefined) moveTo(parentIndex, false);
+          }
+          return;
+        }
+
+        case "F2":
+        case "Enter": {
+          if (current && canRename) {
+            e.preventDefault();
+            setEditingId(current.node.item.id);
+          }
+          return;
+        }
+
+        case "Delete":
+        case "Backspace": {
+          if (onDeleteSelection && selectedIds.length > 0) {
+            e.preventDefault();
+            onDeleteSelection();
+          }
+          return;
+        }
+
+        case "Escape": {
+          if (current && selectedIds.length > 1) {
+            e.preventDefault();
+            setSelectedIds([current.node.item.id]);
+            setAnchorId(current.node.item.id);
+          }
+          return;
+        }
+      }
+    },
+    [
+      store,
+      selectableItems,
+      visibleIndexById,
+      canRename,
+      onDeleteSelection,
+      onOpenContextMenu,
+      onUndo,
+      onRedo,
+      setSelectedIds,
+      setAnchorId,
+      setFocusedId,
+      setCollapsed,
+      setEditingId,
+    ]
+  );
+}
+
+// =============================================================================
+// TYPE-AHEAD
+// =============================================================================
+//
+// Typing a name jumps to it, like in a file explorer. Keys typed within
+// TYPE_AHEAD_TIMEOUT of each other build up one search:
+//
+//   r → e → f        "refunds"  (the first item from the focused one on
+//                                that starts with "r", then "re", "ref")
+//   r → r → r        cycles through the items starting with "r"
+//   (pause) w        starts over: "webhook"
+//
+// Matching is case-insensitive and wraps around the end of the list. Only
+// VISIBLE items count - the search walks selectableItems like the arrow
+// keys do.
+//
+// Space never takes part: it picks the focused row up for a keyboard drag.
+//
+// =============================================================================
+
+/** How long a pause (ms) ends the current search */
+const TYPE_AHEAD_TIMEOUT = 500;
+
+interface TypeAhead {
+  buffer: string;
+
+  /** KeyboardEvent.timeStamp of the last key that went into the buffer */
+  lastKeyAt: number;
+}
+
+function isTypeAheadKey(e: React.KeyboardEvent): boolean {
+  return (
+    e.key.length === 1 &&
+    e.key !== " " &&
+    !e.ctrlKey &&
+    !e.metaKey &&
+    !e.altKey
+  );
+}
+
+/**
+ * Adds `key` to the search and returns the index of the item to jump to,
+ * or -1 if nothing matches.
+ */
+function stepTypeAhead(
+  typeAhead: TypeAhead,
+  key: string,
+  timeStamp: number,
+  selectableItems: SelectableTreeNode[],
+  currentIndex: number
+): number {
+  if (timeStamp - typeAhead.lastKeyAt > TYPE_AHEAD_TIMEOUT) {
+    typeAhead.buffer = "";
+  }
+  typeAhead.buffer += key.toLowerCase();
+  typeAhead.lastKeyAt = timeStamp;
+
+  // "rrr" means "the third item starting with r", not "an item named rrr"
+  const { buffer } = typeAhead;
+  const isRepeat = [...buffer].every((char) => char === buffer[0]);
+  const prefix = isRepeat ? buffer[0] : buffer;
+
+  // A new (or repeated) letter moves on; a longer search may stay on the
+  // current item ("r" found refunds, "re" still matches it)
+  const start = isRepeat ? currentIndex + 1 : Math.max(currentIndex, 0);
+
+  for (let i = 0; i < selectableItems.length; i++) {
+    const index = (start + i) % selectableItems.length;
+    const name = selectableItems[index].node.item.name.toLowerCase();
+    if (name.startsWith(prefix)) return index;
+  }
+  return -1;
+}
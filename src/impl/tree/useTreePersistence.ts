@@ -0,0 +1,128 @@
+import { useEffect, useLayoutEffect, useRef } from "react";
+import type { TTree } from "../../types";
+import type { TreeStoreApi } from "./store";
+import { type PersistOptions, saveTreeState } from "./persistence";
+
+// =============================================================================
+// USE TREE PERSISTENCE HOOK
+// =============================================================================
+//
+// The saving half of persistence.ts (loading happens in Tree, before the
+// store's first render):
+//
+//   - Restores the scroll position once, on mount
+//   - Saves whenever the selection, anchor, collapsed folders or scroll
+//     position change - debounced, since scrolling fires every frame
+//   - Flushes a pending save on unmount and when the page is hidden, so
+//     the last change before a reload isn't lost
+//
+// =============================================================================
+
+/** Quiet period before a change is written */
+const SAVE_DELAY = 250;
+
+interface TreePersistenceOptions {
+  /** undefined = persistence off */
+  persist: PersistOptions | undefined;
+
+  store: TreeStoreApi;
+
+  /** The current tree, loaded lazy children included - only ids in it are saved */
+  data: TTree;
+
+  /** The element that scrolls */
+  scrollRef: React.RefObject<HTMLElement | null>;
+
+  /** Scroll position loaded with the rest of the state */
+  initialScrollTop: number | undefined;
+}
+
+export function useTreePersistence({
+  persist,
+  store,
+  data,
+  scrollRef,
+  initialScrollTop,
+}: TreePersistenceOptions) {
+  // ---------------------------------------------------------------------------
+  // RESTORE SCROLL
+  // ---------------------------------------------------------------------------
+
+  const restoredScrollRef = useRef(false);
+
+  useLayoutEffect(() => {
+    const scrollElement = scrollRef.current;
+    if (restoredScrollRef.current || !scrollElement) return;
+
+    restoredScrollRef.current = true;
+    if (initialScrollTop !== undefined) {
+      scrollElement.scrollTop = initialScrollTop;
+    }
+  }, [scrollRef, initialScrollTop]);
+
+  // ---------------------------------------------------------------------------
+  // SAVE
+  // ---------------------------------------------------------------------------
+  //
+  // The data changes with every edit; read it through a ref so that
+  // doesn't tear down (and flush) the subscriptions below.
+  //
+  // ---------------------------------------------------------------------------
+
+  const dataRef = useRef(data);
+  useLayoutEffect(() => {
+    dataRef.current = data;
+  });
+
+  const id = persist?.id;
+  const storage = persist?.storage;
+
+  useEffect(() => {
+    const scrollElement = scrollRef.current;
+    if (id === undefined || !scrollElement) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const save = () => {
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+
+      const { collapsed, selectedIds, anchorId } = store.getState();
+      saveTreeState(
+        { id, storage },
+        { collapsed, selectedIds, anchorId, scrollTop: scrollElement.scrollTop },
+        dataRef.current
+      );
+    };
+
+    const scheduleSave = () => {
+      if (timer !== null) clearTimeout(timer);
+      timer = setTimeout(save, SAVE_DELAY);
+    };
+
+    const flush = () => {
+      if (timer !== null) save();
+    };
+
+    const unsubscribe = store.subscribe((state, prev) => {
+      if (
+        state.collapsed !== prev.collapsed ||
+        state.selectedIds !== prev.selectedIds ||
+        state.anchorId !== prev.anchorId
+      ) {
+        scheduleSave();
+      }
+    });
+    scrollElement.addEventListener("scroll", scheduleSave, { passive: true });
+    window.addEventListener("pagehide", flush);
+
+    return () => {
+      unsubscribe();
+      scrollElement.removeEventListener("scroll", scheduleSave);
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [id, storage, store, scrollRef]);
+}
@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+
+// =============================================================================
+// USE VIRTUAL ROWS HOOK
+// =============================================================================
+//
+// Windowed rendering for the flat item list: only the rows near the
+// viewport are mounted, everything else is empty space.
+//
+//   scroll container
+//   ┌───────────────────────┐
+//   │  (catch zone)         │
+//   │ ┌───────────────────┐ │  ← list: one tall div, height = totalHeight
+//   │ │                   │ │
+//   │ │  row 412  top=... │ │  ← only these rows exist in the DOM,
+//   │ │  row 413          │ │    each absolutely positioned at its offset
+//   │ │  ...              │ │
+//   │ │  row 440          │ │
+//   │ │                   │ │
+//   │ └───────────────────┘ │
+//   └───────────────────────┘
+//
+// ROW HEIGHTS
+//   - Fixed:    pass rowHeight; offsets are index * rowHeight
+//   - Measured: omit it; rows start at estimatedRowHeight and are corrected
+//               by a ResizeObserver once rendered (attach measureRef)
+//
+// Heights are remembered by KEY (item id), not index, so expanding a folder
+// doesn't scramble the measurements of everything below it.
+//
+// A row slot can hold more than one line (a lazy folder and its "Loading…"
+// row). Measured rows just come out taller; with a fixed rowHeight, pass
+// the line count in `lines`.
+//
+// PINNED ROWS
+//   Some rows must stay mounted even when scrolled away - the focused row
+//   (it holds DOM focus) and the row being dragged (dnd-kit tracks its
+//   node). They're rendered at their real offset, just outside the window.
+//
+// =============================================================================
+
+/** Extra rows mounted above and below the viewport */
+const OVERSCAN = 10;
+
+interface VirtualRowsOptions {
+  /** The element that scrolls */
+  scrollRef: React.RefObject<HTMLElement | null>;
+
+  /** A stable key per row, in render order */
+  keys: string[];
+
+  /** Fixed row height in px; omit to measure rows */
+  rowHeight?: number;
+
+  /** Key → lines in that row's slot, for slots of more than one rowHeight */
+  lines?: ReadonlyMap<string, number>;
+
+  /** Height assumed for rows that haven't been measured yet */
+  estimatedRowHeight: number;
+
+  /** Row indices that are always rendered */
+  pinned?: number[];
+}
+
+export interface VirtualRow {
+  index: number;
+  key: string;
+
+  /** Offset from the top of the list, in px */
+  top: number;
+}
+
+export function useVirtualRows({
+  scrollRef,
+  keys,
+  rowHeight,
+  lines,
+  estimatedRowHeight,
+  pinned = [],
+}: VirtualRowsOptions) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // The visible slice of the LIST (not the scroll container): top can be
+  // negative while content above the list (catch zone, padding) is showing
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+
+  const [measured, setMeasured] = useState<Map<string, number>>(() => new Map());
+
+  // ---------------------------------------------------------------------------
+  // OFFSETS
+  // ---------------------------------------------------------------------------
+  //
+  // offsets[i] = top of row i, offsets[count] = total height.
+  // One pass over the list; rebuilt when rows or measurements change.
+  //
+  // ---------------------------------------------------------------------------
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    for (let i = 0; i < keys.length; i++) {
+      const height =
+        rowHeight !== undefined
+          ? rowHeight * (lines?.get(keys[i]) ?? 1)
+          : (measured.get(keys[i]) ?? estimatedRowHeight);
+      result[i + 1] = result[i] + height;
+    }
+    return result;
+  }, [keys, rowHeight, lines, measured, estimatedRowHeight]);
+
+  // ---------------------------------------------------------------------------
+  // TRACK THE VIEWPORT
+  // ---------------------------------------------------------------------------
+  //
+  // ResizeObserver fires once as soon as it starts observing, which gives
+  // us the initial size without a separate measurement.
+  //
+  // ---------------------------------------------------------------------------
+
+  useLayoutEffect(() => {
+    const scrollElement = scrollRef.current;
+    const list = listRef.current;
+    if (!scrollElement || !list) return;
+
+    const update = () => {
+      const top =
+        scrollElement.getBoundingClientRect().top - list.getBoundingClientRect().top;
+      const height = scrollElement.clientHeight;
+
+      setViewport((prev) =>
+        prev.top === top && prev.height === height ? prev : { top, height }
+      );
+    };
+
+    scrollElement.addEventListener("scroll", update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(scrollElement);
+
+    return () => {
+      scrollElement.removeEventListener("scroll", update);
+      observer.disconnect();
+    };
+  }, [scrollRef]);
+
+  // ---------------------------------------------------------------------------
+  // MEASURE ROWS
+  // ---------------------------------------------------------------------------
+  //
+  // The observer is created lazily from the ref callback: rows attach their
+  // refs BEFORE our effects run, so an effect-created observer would miss
+  // the first batch.
+  //
+  // ---------------------------------------------------------------------------
+
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => {
+    return () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  const measureRef = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+
+    observerRef.current ??= new ResizeObserver((entries) => {
+      setMeasured((prev) => {
+        let next: Map<string, number> | null = null;
+
+        for (const entry of entries) {
+          const key = (entry.target as HTMLElement).dataset.key;
+          const height = entry.borderBoxSize[0]?.blockSize ?? entry.contentRect.height;
+          if (!key || prev.get(key) === height) continue;
+
+          next ??= new Map(prev);
+          next.set(key, height);
+        }
+
+        return next ?? prev;
+      });
+    });
+
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  // ---------------------------------------------------------------------------
+  // VISIBLE RANGE
+  // ---------------------------------------------------------------------------
+
+  const count = keys.length;
+  const first = Math.max(0, findRowAt(offsets, viewport.top) - OVERSCAN);
+  const last = Math.min(
+    count - 1,
+    findRowAt(offsets, viewport.top + viewport.height) + OVERSCAN
+  );
+
+  const rows: VirtualRow[] = [];
+  const addRow = (index: number) =>
+    rows.push({ index, key: keys[index], top: offsets[index] });
+
+  const outside = pinned
+    .filter((index) => index >= 0 && index < count && (index < first || index > last))
+    .sort((a, b) => a - b);
+
+  for (const index of outside) {
+    if (index < first) addRow(index);
+  }
+  for (let index = first; index <= last; index++) {
+    addRow(index);
+  }
+  for (const index of outside) {
+    if (index > last) addRow(index);
+  }
+
+  // ---------------------------------------------------------------------------
+  // REVEAL A ROW
+  // ---------------------------------------------------------------------------
+  //
+  // Scrolls the minimum amount to bring row `index` fully into view (plus
+  // `margin` px of context above/below it) and returns its viewport bounds.
+  // Works from the offsets alone, so the row doesn't have to be mounted
+  // (keyboard drags step to off-screen rows).
+  //
+  // ---------------------------------------------------------------------------
+
+  const revealRow = useCallback(
+    (index: number, margin = 0): { top: number; bottom: number } | null => {
+      const scrollElement = scrollRef.current;
+      const list = listRef.current;
+      if (!scrollElement || !list || index < 0 || index >= offsets.length - 1) {
+        return null;
+      }
+
+      const rowTop = offsets[index];
+      const rowBottom = offsets[index + 1];
+      const viewTop =
+        scrollElement.getBoundingClientRect().top - list.getBoundingClientRect().top;
+      const viewBottom = viewTop + scrollElement.clientHeight;
+
+      if (rowTop - margin < viewTop) {
+        scrollElement.scrollTop -= viewTop - (rowTop - margin);
+      } else if (rowBottom + margin > viewBottom) {
+        scrollElement.scrollTop += rowBottom + margin - viewBottom;
+      }
+
+      // Scrolling is synchronous - read the list's new position
+      const listTop = list.getBoundingClientRect().top;
+      return { top: listTop + rowTop, bottom: listTop + rowBottom };
+    },
+    [offsets, scrollRef]
+  );
+
+  return {
+    listRef,
+    rows,
+    totalHeight: offsets[count],
+    measureRef: rowHeight === undefined ? measureRef : undefined,
+    revealRow,
+  };
+}
+
+/** Index of the row containing list offset y (clamped to the list) */
+function findRowAt(offsets: number[], y: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= y) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return Math.max(0, low);
+}
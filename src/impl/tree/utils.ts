@@ -1,5 +1,20 @@
 import type { TTree, TTreeNode } from "../../types";
-import type { InternalTreeNode, SelectableTreeNode } from "./types";
+import type {
+  ChildrenLoad,
+  DragOperation,
+  HoveredParent,
+  InternalTree,
+  InternalTreeNode,
+  NameValidationContext,
+  NameValidator,
+  PendingCreate,
+  SelectableTreeNode,
+  TreeFilter,
+  TreeFilterResult,
+  TreeSortComparator,
+  TreeSortMode,
+  TreeTransferPayload,
+} from "./types";
 
 // =============================================================================
 // BUILD INTERNAL TREE
@@ -8,6 +23,11 @@ import type { InternalTreeNode, SelectableTreeNode } from "./types";
 // Converts your flat TTree/TTreeNode structure into InternalTreeNode with:
 //   - parent: backlink to parent node
 //   - depth: nesting level
+//   - childIndex: position among its siblings
+//
+// ...and, in the same walk, an id → node index (nodesById). Everything that
+// needs "the node for this id" - drag handlers, announcements, selection -
+// reads the index instead of searching the tree.
 //
 // This is called ONCE when tree data changes (in a useMemo), not on every render.
 //
@@ -22,7 +42,7 @@ import type { InternalTreeNode, SelectableTreeNode } from "./types";
 //     ]
 //   }
 //
-//   Output (InternalTreeNode):
+//   Output (root InternalTreeNode):
 //   {
 //     item: { id: "root", ... },
 //     depth: 0,
@@ -50,23 +70,33 @@ import type { InternalTreeNode, SelectableTreeNode } from "./types";
 //
 // =============================================================================
 
-export function buildInternalTree(
+export function buildInternalTree(data: TTree | TTreeNode): InternalTree {
+  const nodesById = new Map<string, InternalTreeNode>();
+  const root = buildNode(data, null, 0, 0, nodesById);
+  return { root, nodesById };
+}
+
+function buildNode(
   node: TTree | TTreeNode,
-  parent: InternalTreeNode | null = null,
-  depth: number = 0
+  parent: InternalTreeNode | null,
+  depth: number,
+  childIndex: number,
+  nodesById: Map<string, InternalTreeNode>
 ): InternalTreeNode {
   // Create the internal node with parent and depth
   const internalNode: InternalTreeNode = {
     item: node as TTreeNode,
     parent,
     depth,
+    childIndex,
     children: undefined,
   };
+  nodesById.set(node.id, internalNode);
 
   // Recursively process children, linking them back to this node
   if (node.children && node.children.length > 0) {
-    internalNode.children = node.children.map((child) =>
-      buildInternalTree(child, internalNode, depth + 1)
+    internalNode.children = node.children.map((child, index) =>
+      buildNode(child, internalNode, depth + 1, index, nodesById)
     );
   }
 
@@ -115,11 +145,42 @@ export function hasAncestor(
   return false;
 }
 
+/**
+ * hasAncestor for a whole set of IDs in one walk up the chain - O(depth)
+ * however many items are being dragged.
+ */
+export function hasAnyAncestor(
+  node: InternalTreeNode | null,
+  ancestorIds: ReadonlySet<string>
+): boolean {
+  for (let current = node; current !== null; current = current.parent) {
+    if (ancestorIds.has(current.item.id)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Can the dragged items go into `parent`?
+ *
+ * A MOVE can't put a folder into itself or one of its descendants - it
+ * would cut the folder out of the tree along with its new home. A COPY
+ * can: the copy is a new subtree, and the original stays where it is.
+ */
+export function canDropInto(
+  parent: InternalTreeNode,
+  draggingIds: ReadonlySet<string>,
+  operation: DragOperation
+): boolean {
+  return operation === "copy" || !hasAnyAncestor(parent, draggingIds);
+}
+
 // =============================================================================
 // GET CHILD INDEX
 // =============================================================================
 //
-// Finds the position of a node within its parent's children array.
+// The position of a node within its parent's children array.
 //
 // Why is this needed?
 //   - COMPUTE DROP childIndex: "insert at position X in parent's children"
@@ -128,56 +189,149 @@ export function hasAncestor(
 //   Parent has children: [FileA, FileB, FileC]
 //   getChildIndex(FileB) → 1
 //
+// Cached on the node by buildInternalTree, so this is O(1).
 // If the node has no parent (it's the root), returns 0.
 //
 // =============================================================================
 
 export function getChildIndex(node: InternalTreeNode): number {
-  // Root node has no parent
-  if (!node.parent) {
-    return 0;
-  }
-
-  // Find this node's position in parent's children array
-  const siblings = node.parent.children ?? [];
-  const index = siblings.findIndex((child) => child.item.id === node.item.id);
-
-  // Return found index, or 0 if not found (shouldn't happen in valid tree)
-  return index === -1 ? 0 : index;
+  return node.childIndex;
 }
 
 // =============================================================================
-// FIND NODE BY ID
+// ROW DROP ZONES
 // =============================================================================
 //
-// Searches the tree for a node with a specific ID.
-// Returns the InternalTreeNode if found, null otherwise.
+// Where does a drop on a row go? Decided by how far down the row the
+// pointer is (ratio: 0 = top edge, 1 = bottom edge). Shared by dnd-kit
+// drags (handleDragMove) and files dragged in from the OS
+// (useExternalFileDrop), so both show the same markers.
+//
+// FOR FILES (simple 50/50 split):
+//   - Top 50%: "above" → insert before file
+//   - Bottom 50%: "below" → insert after file
+//
+// FOR FOLDERS (3-zone detection):
+//   - Top 25%: "above" → insert before folder (as sibling)
+//   - Middle 50%: "inside" → insert into folder (as child)
+//   - Bottom 25%: "below" → insert after folder (as sibling)
+//
+// EXCEPTION: Expanded folders with children
+//   - When hovering bottom zone of expanded folder, we DON'T show "below"
+//   - Instead, the first child handles that position
+//   - So expanded folders only have: top 25% = above, rest = inside
+//
+// This fixes the issue where hovering over a folder shows BOTH the
+// drop line AND the "drop inside" ring simultaneously.
 //
-// This is a recursive depth-first search.
+// FOLDERS THAT CAN'T HAVE CHILDREN (canHaveChildren, see DRAG AND DROP
+// RULES in types.ts) have no "inside" zone: they split 50/50 like files -
+// or, expanded with children, are "above" all the way down.
+//
+// WHILE SORTED (sortMode, see SORTING in types.ts) there is no "above" or
+// "below": the whole row means "into the folder" - the hovered folder
+// itself, or the folder of a hovered file. childIndex is then the end.
 //
 // =============================================================================
 
-export function findNodeById(
-  root: InternalTreeNode,
-  id: string
-): InternalTreeNode | null {
-  // Check if this is the node we're looking for
-  if (root.item.id === id) {
-    return root;
+export interface RowDropTarget {
+  /** The folder the items would go into (null only above/below the root) */
+  parent: InternalTreeNode | null;
+
+  /** Position among parent's children */
+  childIndex: number;
+
+  dropIntent: "above" | "below" | "inside";
+
+  /** Position in the flat list (where the marker is drawn) */
+  index: number;
+}
+
+export interface RowDropOptions {
+  canHaveChildren?: (node: TTreeNode) => boolean;
+
+  /** The tree sorts its rows: inside drops only */
+  sorted?: boolean;
+}
+
+export function getRowDropTarget(
+  { node, index }: SelectableTreeNode,
+  ratio: number,
+  collapsed: Record<string, boolean>,
+  { canHaveChildren, sorted = false }: RowDropOptions = {}
+): RowDropTarget {
+  const isDirectory = node.item.type === "directory";
+  const isExpanded = isDirectory && !(collapsed[node.item.id] ?? false);
+  const hasChildren = node.children !== undefined && node.children.length > 0;
+
+  if (sorted) {
+    const acceptsChildren = isDirectory && (canHaveChildren?.(node.item) ?? true);
+    const parent = acceptsChildren ? node : node.parent;
+    return {
+      parent,
+      childIndex: parent?.children?.length ?? 0,
+      dropIntent: "inside",
+      index,
+    };
   }
 
-  // Recursively search children
-  if (root.children) {
-    for (const child of root.children) {
-      const found = findNodeById(child, id);
-      if (found) {
-        return found;
-      }
-    }
+  const above: RowDropTarget = {
+    parent: node.parent,
+    childIndex: getChildIndex(node),
+    dropIntent: "above",
+    index,
+  };
+  const below: RowDropTarget = {
+    parent: node.parent,
+    childIndex: getChildIndex(node) + 1,
+    dropIntent: "below",
+    index: index + 1,
+  };
+
+  if (!isDirectory || !(canHaveChildren?.(node.item) ?? true)) {
+    if (isExpanded && hasChildren) return above;
+    return ratio < 0.5 ? above : below;
   }
 
-  // Not found in this subtree
-  return null;
+  if (ratio < 0.25) return above;
+
+  // Note: expanded folders don't have a "below" zone - their children handle that
+  if (ratio > 0.75 && !isExpanded) return below;
+
+  // Middle 50% (or bottom of expanded folder): drop INSIDE, at the top.
+  // There's no line marker for inside drops, but the store still needs a
+  // flat index - the row after the folder if its children are showing.
+  return {
+    parent: node,
+    childIndex: 0,
+    dropIntent: "inside",
+    index: isExpanded && hasChildren ? index + 1 : index,
+  };
+}
+
+// =============================================================================
+// DROP PATH
+// =============================================================================
+//
+// The folder a drop goes into and every folder above it, up to the root:
+// the folders a spring-loaded drag leaves open (see springCollapsed in
+// store.ts). Empty if there's no drop target, or the drop rules refuse it.
+//
+// =============================================================================
+
+export function getDropPath(
+  nodesById: Map<string, InternalTreeNode>,
+  hoveredParent: HoveredParent
+): string[] {
+  if (!hoveredParent.parentId || hoveredParent.rejected) return [];
+
+  const ids: string[] = [];
+  let node = nodesById.get(hoveredParent.parentId) ?? null;
+  while (node) {
+    ids.push(node.item.id);
+    node = node.parent;
+  }
+  return ids;
 }
 
 // =============================================================================
@@ -190,96 +344,516 @@ export function findNodeById(
 //   - Store holds string IDs (lightweight)
 //   - But callbacks need actual node objects
 //
-// We use the flat selectableItems array for lookup because:
-//   1. It only contains VISIBLE items (important for drag)
-//   2. O(n*m) but n and m are typically small
+// One index lookup per ID - O(m), however big the tree is.
+// IDs that no longer exist (deleted since they were selected) are skipped.
 //
 // =============================================================================
 
 export function getSelectedItems(
-  selectableItems: SelectableTreeNode[],
+  nodesById: Map<string, InternalTreeNode>,
   selectedIds: string[]
 ): TTreeNode[] {
   return selectedIds
-    .map((id) => {
-      const found = selectableItems.find((s) => s.node.item.id === id);
-      return found?.node.item ?? null;
-    })
+    .map((id) => nodesById.get(id)?.item ?? null)
     .filter((item): item is TTreeNode => item !== null);
 }
 
 // =============================================================================
-// REMOVE NODE FROM TREE (MUTATING)
+// GET RANGE IDS
+// =============================================================================
+//
+// Returns the IDs of every visible item between two items (inclusive),
+// in flat-list order. Used by both shift+click and shift+arrow selection.
+//
+// Example:
+//   selectableItems: [A, B, C, D, E]
+//   getRangeIds(items, indexById, "D", "B") → ["B", "C", "D"]
+//
+// Both ends are found through indexById (see indexSelectableItems), so
+// only the range itself is walked.
+//
+// Returns null if either end is not currently visible.
+//
+// =============================================================================
+
+export function getRangeIds(
+  selectableItems: SelectableTreeNode[],
+  indexById: Map<string, number>,
+  fromId: string,
+  toId: string
+): string[] | null {
+  const fromIndex = indexById.get(fromId);
+  const toIndex = indexById.get(toId);
+
+  if (fromIndex === undefined || toIndex === undefined) {
+    return null;
+  }
+
+  // The anchor might be before or after the target
+  const start = Math.min(fromIndex, toIndex);
+  const end = Math.max(fromIndex, toIndex);
+
+  return selectableItems.slice(start, end + 1).map((s) => s.node.item.id);
+}
+
+// =============================================================================
+// GET TOPMOST NODES
 // =============================================================================
 //
-// Removes a node with the given ID from anywhere in the tree.
-// This MUTATES the tree structure (removes from parent's children array).
+// Resolves IDs to nodes, dropping any node whose ancestor is also in the set.
+//
+// Example:
+//   FolderA
+//     └── FileA1
+//   FileB
 //
-// Used in the drag-end handler when moving items:
-//   1. Remove items from their current locations
-//   2. Insert them at the new location
+//   getTopmostNodes(root, ["FileA1", "FolderA", "FileB"])
+//     → [FolderA, FileB]   (FileA1 goes with FolderA anyway)
 //
-// Returns true if node was found and removed, false otherwise.
+// Results come back in tree order, not selection order. The root itself
+// and the new-item placeholder are never returned.
 //
 // =============================================================================
 
-export function removeNodeFromTree(root: TTree | TTreeNode, id: string): boolean {
-  // Can't remove the root itself
-  if (root.id === id) {
-    return false;
+export function getTopmostNodes(
+  root: InternalTreeNode,
+  ids: string[]
+): InternalTreeNode[] {
+  const wanted = new Set(ids);
+  const result: InternalTreeNode[] = [];
+
+  function walk(node: InternalTreeNode) {
+    if (node.depth > 0 && node.item.id !== NEW_ITEM_ID && wanted.has(node.item.id)) {
+      // Found one - don't descend, everything below is covered
+      result.push(node);
+      return;
+    }
+    for (const child of node.children ?? []) {
+      walk(child);
+    }
   }
 
-  // Check if any direct children match
-  if (root.children) {
-    const index = root.children.findIndex((child) => child.id === id);
+  walk(root);
+  return result;
+}
 
-    if (index !== -1) {
-      // Found it! Remove from array
-      root.children.splice(index, 1);
-      return true;
+// =============================================================================
+// FIND NEXT SURVIVOR
+// =============================================================================
+//
+// After removing some items, which visible item should get focus?
+//
+//   1. The first surviving item after the first removed one
+//   2. Otherwise, the last surviving item before it
+//   3. Otherwise (everything is gone), null
+//
+// An item "survives" if neither it nor any of its ancestors was removed.
+//
+// =============================================================================
+
+export function findNextSurvivor(
+  selectableItems: SelectableTreeNode[],
+  removedIds: string[]
+): SelectableTreeNode | null {
+  const removed = new Set(removedIds);
+
+  const survives = (s: SelectableTreeNode) => {
+    for (let n: InternalTreeNode | null = s.node; n; n = n.parent) {
+      if (removed.has(n.item.id)) return false;
     }
+    return true;
+  };
+
+  const firstRemoved = selectableItems.findIndex((s) => !survives(s));
+  if (firstRemoved === -1) return null;
+
+  const after = selectableItems.slice(firstRemoved).find(survives);
+  if (after) return after;
+
+  return selectableItems.slice(0, firstRemoved).reverse().find(survives) ?? null;
+}
+
+// =============================================================================
+// DEFAULT NAME VALIDATOR
+// =============================================================================
+//
+// Used by inline rename when the consumer doesn't pass `validateName`.
+//
+// Rejects:
+//   - Empty names ("" or only whitespace - the name arrives trimmed)
+//   - A name already used by a sibling in the same folder
+//     (case-insensitive, like most file systems)
+//
+// =============================================================================
+
+export function validateName(
+  name: string,
+  { siblings }: NameValidationContext
+): string | null {
+  if (name.length === 0) {
+    return "A name must be provided.";
+  }
+
+  const lower = name.toLowerCase();
+  if (siblings.some((sibling) => sibling.name.toLowerCase() === lower)) {
+    return `An item named "${name}" already exists in this folder.`;
+  }
+
+  return null;
+}
+
+// =============================================================================
+// COPY NAMES
+// =============================================================================
+//
+// A pasted copy usually lands next to its original, where the original
+// name is taken. Like a file explorer, we number the copy instead:
+//
+//   report.txt → report copy.txt → report copy 2.txt → report copy 3.txt
+//
+// Compared case-insensitively, like validateName.
+//
+// =============================================================================
+
+export function getCopyName(name: string, siblings: TTreeNode[]): string {
+  const taken = new Set(siblings.map((sibling) => sibling.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+
+  // Keep the extension at the end ("report copy.txt", not "report.txt copy").
+  // A leading dot is a hidden file's name, not an extension.
+  const dot = name.lastIndexOf(".");
+  const [base, extension] =
+    dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+
+  for (let n = 1; ; n++) {
+    const candidate = `${base} copy${n === 1 ? "" : ` ${n}`}${extension}`;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+// =============================================================================
+// GET NAME VALIDATION CONTEXT
+// =============================================================================
+//
+// Builds the context a NameValidator needs from an internal node:
+// its parent and every OTHER child of that parent.
+//
+// =============================================================================
+
+export function getNameValidationContext(
+  node: InternalTreeNode
+): NameValidationContext {
+  const siblings = (node.parent?.children ?? [])
+    .filter((child) => child !== node)
+    .map((child) => child.item);
+
+  return {
+    item: node.item,
+    parent: node.parent?.item ?? null,
+    siblings,
+  };
+}
+
+// =============================================================================
+// VALIDATE TRANSFER
+// =============================================================================
+//
+// The target tree's half of a transfer check (see TRANSFERS in treeDnd.ts):
+// can items dragged in from ANOTHER tree land in `parent`?
+//
+//   - Every name must pass this tree's validator among the folder's
+//     children - and the items dropped before it, so two dragged "notes"
+//     can't both land in one folder
+//   - A move keeps the items' ids, so none of them (descendants included)
+//     may already be in this tree
+//
+// Returns the first problem found, or null if the transfer is fine.
+//
+// =============================================================================
 
-    // Not a direct child, recursively check grandchildren
-    for (const child of root.children) {
-      if (removeNodeFromTree(child, id)) {
-        return true;
+export function validateTransfer(
+  { operation, source }: TreeTransferPayload,
+  parent: InternalTreeNode,
+  nodesById: Map<string, InternalTreeNode>,
+  validateName: NameValidator
+): string | null {
+  if (operation === "move") {
+    const stack = [...source.items];
+    while (stack.length > 0) {
+      const item = stack.pop()!;
+      if (nodesById.has(item.id)) {
+        return `"${item.name}" is already in this tree.`;
       }
+      if (item.children) stack.push(...item.children);
     }
   }
 
-  return false;
+  const siblings = (parent.children ?? []).map((child) => child.item);
+  for (const item of source.items) {
+    const error = validateName(item.name, { item, parent: parent.item, siblings });
+    if (error) return error;
+    siblings.push(item);
+  }
+
+  return null;
+}
+
+// =============================================================================
+// NEW ITEM PLACEHOLDER
+// =============================================================================
+//
+// While the user types a name for a new file/folder, the tree shows a
+// placeholder row. It's a real InternalTreeNode (so flattening, indentation
+// and keyboard nav just work) but it only exists in OUR internal tree - the
+// consumer's TTree is never touched.
+//
+// =============================================================================
+
+/** ID of the placeholder row shown while creating a new item */
+export const NEW_ITEM_ID = "__new_item__";
+
+/**
+ * Inserts the placeholder node described by `pending` into an internal tree
+ * (and its index). Copies the parent's children array rather than mutating
+ * the original, and shifts the cached childIndex of the siblings after it.
+ */
+export function insertPlaceholder(
+  { nodesById }: InternalTree,
+  pending: PendingCreate
+): void {
+  const parent = nodesById.get(pending.parentId);
+  if (!parent) return;
+
+  const placeholder: InternalTreeNode = {
+    item: {
+      id: NEW_ITEM_ID,
+      name: "",
+      type: pending.type,
+      children: pending.type === "directory" ? [] : undefined,
+    },
+    parent,
+    depth: parent.depth + 1,
+    childIndex: pending.insertAt,
+  };
+
+  const children = [...(parent.children ?? [])];
+  children.splice(pending.insertAt, 0, placeholder);
+  for (let i = pending.insertAt + 1; i < children.length; i++) {
+    children[i].childIndex = i;
+  }
+  parent.children = children;
+  nodesById.set(NEW_ITEM_ID, placeholder);
+}
+
+// =============================================================================
+// GET CREATE TARGET
+// =============================================================================
+//
+// Where should "New file" / "New folder" put the new item?
+//
+//   Focused item is a FOLDER → inside it, at the top
+//   Focused item is a FILE   → right after it, in the same folder
+//   Nothing focused          → at the end of the root
+//
+// A folder that can't have children (canHaveChildren) counts as a file.
+//
+// =============================================================================
+
+export function getCreateTarget(
+  { root, nodesById }: InternalTree,
+  focusedId: string | null,
+  canHaveChildren?: (node: TTreeNode) => boolean
+): { parentId: string; insertAt: number } {
+  const focused = focusedId ? nodesById.get(focusedId) : null;
+
+  if (focused && focused.depth > 0) {
+    if (
+      focused.item.type === "directory" &&
+      (canHaveChildren?.(focused.item) ?? true)
+    ) {
+      return { parentId: focused.item.id, insertAt: 0 };
+    }
+    if (focused.parent) {
+      return {
+        parentId: focused.parent.item.id,
+        insertAt: getChildIndex(focused) + 1,
+      };
+    }
+  }
+
+  return { parentId: root.item.id, insertAt: root.children?.length ?? 0 };
 }
 
 // =============================================================================
-// FIND PARENT OF NODE
+// SORT COMPARATORS
 // =============================================================================
 //
-// Finds the parent node of a given node ID in the external tree structure.
-// (This is for TTree/TTreeNode, not InternalTreeNode which already has parent)
+// The comparator behind a sortMode (see SORTING in types.ts), or null for
+// "manual". Names compare naturally and case-insensitively:
+// "file 2" < "File 10".
 //
-// Returns { parent, childIndex } or null if not found.
+// =============================================================================
+
+const nameCollator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+function compareNames(a: TTreeNode, b: TTreeNode): number {
+  return nameCollator.compare(a.name, b.name);
+}
+
+export function getSortComparator(mode: TreeSortMode): TreeSortComparator | null {
+  switch (mode) {
+    case "manual":
+      return null;
+    case "name-asc":
+      return compareNames;
+    case "name-desc":
+      return (a, b) => compareNames(b, a);
+    case "folders-first":
+      return (a, b) =>
+        Number(b.type === "directory") - Number(a.type === "directory") ||
+        compareNames(a, b);
+    default:
+      return mode;
+  }
+}
+
+// =============================================================================
+// FILTER
+// =============================================================================
+//
+// matchItem decides whether ONE item matches, and which characters of its
+// name to highlight:
+//
+//   substring "fun"   refunds  →  re[fun]ds        [2, 3, 4]
+//   fuzzy     "rfd"   refunds  →  [r]e[f]un[d]s    [0, 2, 5]
+//   predicate         refunds  →  (no highlight)   []
+//   no match                   →  null
+//
+// Fuzzy matching takes each query character at its first occurrence after
+// the previous one - good enough to highlight, no scoring.
+//
+// filterTree runs it over the whole tree in one walk. A folder is shown
+// if it matches OR anything below it does; a matching folder's other
+// contents stay hidden.
 //
 // =============================================================================
 
-export function findParentOf(
-  root: TTree | TTreeNode,
-  id: string
-): { parent: TTree | TTreeNode; childIndex: number } | null {
-  if (root.children) {
-    const index = root.children.findIndex((child) => child.id === id);
+export function matchItem(item: TTreeNode, filter: TreeFilter): number[] | null {
+  if (filter.type === "predicate") {
+    return filter.test(item) ? [] : null;
+  }
+
+  const name = item.name.toLowerCase();
+  const query = filter.query.toLowerCase();
+
+  if (filter.type === "substring") {
+    const start = name.indexOf(query);
+    return start === -1
+      ? null
+      : Array.from({ length: query.length }, (_, i) => start + i);
+  }
+
+  const indices: number[] = [];
+  let from = 0;
+  for (const char of query) {
+    const index = name.indexOf(char, from);
+    if (index === -1) return null;
+    indices.push(index);
+    from = index + 1;
+  }
+  return indices;
+}
+
+export function filterTree(
+  root: InternalTreeNode,
+  filter: TreeFilter
+): TreeFilterResult {
+  const matches = new Map<string, number[]>();
+  const visibleIds = new Set<string>();
+
+  /** Whether the node or anything below it is shown */
+  function walk(node: InternalTreeNode): boolean {
+    let isShown = false;
+    for (const child of node.children ?? []) {
+      // No short-circuit: every child has to be visited
+      isShown = walk(child) || isShown;
+    }
 
-    if (index !== -1) {
-      return { parent: root, childIndex: index };
+    if (node.depth > 0) {
+      // The "new item" placeholder is always shown - it's being named
+      const match =
+        node.item.id === NEW_ITEM_ID ? null : matchItem(node.item, filter);
+      if (match) matches.set(node.item.id, match);
+      isShown ||= match !== null || node.item.id === NEW_ITEM_ID;
     }
 
-    // Recursively search
-    for (const child of root.children) {
-      const found = findParentOf(child, id);
-      if (found) {
-        return found;
+    if (isShown) visibleIds.add(node.item.id);
+    return isShown;
+  }
+
+  walk(root);
+  return { matches, visibleIds };
+}
+
+// =============================================================================
+// LAZY CHILDREN
+// =============================================================================
+//
+// A lazy folder's children live in the store once loaded, not in `data`
+// (see useLazyChildren). mergeLoadedChildren puts them in place before
+// buildInternalTree runs, so everything downstream sees one ordinary tree:
+//
+//   data                    childLoads                 merged
+//   orders (lazy)           orders → loaded [a, b]     orders
+//   archive (lazy)          archive → loading            a
+//                                                        b
+//                                                      archive (still unloaded)
+//
+// Only the path down to a loaded folder is copied; everything else keeps
+// its identity. Children the consumer puts in `data` itself win over the
+// cache - the folder isn't unloaded any more.
+//
+// =============================================================================
+
+/** A lazy folder still waiting for its children */
+export function isUnloaded(item: TTreeNode): boolean {
+  return item.type === "directory" && item.lazy === true && item.children === undefined;
+}
+
+export function mergeLoadedChildren(
+  data: TTree,
+  childLoads: Record<string, ChildrenLoad>
+): { data: TTree; unloaded: TTreeNode[] } {
+  const unloaded: TTreeNode[] = [];
+
+  function merge(node: TTreeNode): TTreeNode {
+    if (isUnloaded(node)) {
+      const load = childLoads[node.id];
+      if (load?.status !== "loaded") {
+        unloaded.push(node);
+        return node;
       }
+      // Loaded children may be lazy folders themselves
+      return { ...node, children: load.children.map(merge) };
     }
+
+    if (!node.children) return node;
+    const children = mergeAll(node.children);
+    return children === node.children ? node : { ...node, children };
   }
 
-  return null;
+  /** The same array if no child changed */
+  function mergeAll(nodes: TTreeNode[]): TTreeNode[] {
+    const merged = nodes.map(merge);
+    return merged.some((node, i) => node !== nodes[i]) ? merged : nodes;
+  }
+
+  const children = mergeAll(data.children);
+  return {
+    data: children === data.children ? data : { ...data, children },
+    unloaded,
+  };
 }
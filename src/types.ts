@@ -12,6 +12,8 @@ export type TTreeNode = {
   id: string;
   type: TreeNodeType;
   children?: TTreeNode[];
+  /** A directory whose children haven't been loaded yet (leave children unset) */
+  lazy?: boolean;
 };
 
 export type DropIntent = "before" | "after" | "inside";